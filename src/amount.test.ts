@@ -0,0 +1,98 @@
+import { AmountMath } from './amount';
+import { ValidationError } from './steer-types';
+
+describe('AmountMath', () => {
+  describe('mulDiv', () => {
+    it.each([
+      ['down', 3n, 2n],
+      ['up', 4n, 3n],
+      ['half-up', 4n, 3n],
+      ['half-even', 4n, 2n]
+    ] as const)('rounds %s', (rounding, sevenHalves, fiveHalves) => {
+      expect(AmountMath.mulDiv(7n, 1n, 2n, rounding)).toBe(sevenHalves);
+      expect(AmountMath.mulDiv(5n, 1n, 2n, rounding)).toBe(fiveHalves);
+    });
+
+    it('rounds negative values symmetrically around zero', () => {
+      expect(AmountMath.mulDiv(-7n, 1n, 2n, 'down')).toBe(-3n);
+      expect(AmountMath.mulDiv(-7n, 1n, 2n, 'up')).toBe(-4n);
+      expect(AmountMath.mulDiv(-5n, 1n, 2n, 'half-up')).toBe(-3n);
+      expect(AmountMath.mulDiv(-5n, 1n, 2n, 'half-even')).toBe(-2n);
+    });
+
+    it('returns exact quotients unchanged in every mode', () => {
+      for (const rounding of ['down', 'up', 'half-up', 'half-even'] as const) {
+        expect(AmountMath.mulDiv(9n, 2n, 3n, rounding)).toBe(6n);
+      }
+    });
+
+    it('rejects a zero denominator', () => {
+      expect(() => AmountMath.mulDiv(1n, 1n, 0n)).toThrow(ValidationError);
+    });
+  });
+
+  describe('slippageToBps', () => {
+    it('converts fractions to basis points', () => {
+      expect(AmountMath.slippageToBps(0)).toBe(0);
+      expect(AmountMath.slippageToBps(0.005)).toBe(50);
+      expect(AmountMath.slippageToBps(0.0001)).toBe(1);
+      expect(AmountMath.slippageToBps(1)).toBe(10_000);
+    });
+
+    it('absorbs floating point error', () => {
+      expect(AmountMath.slippageToBps(0.0057)).toBe(57);
+      expect(AmountMath.slippageToBps(0.1 + 0.2)).toBe(3000);
+    });
+
+    it.each([-0.01, 1.01, NaN, Infinity])('rejects %p', slippage => {
+      expect(() => AmountMath.slippageToBps(slippage)).toThrow(ValidationError);
+    });
+
+    it.each([0.00004, 0.00005, 0.00009])('rejects %p instead of rounding it below 1 bps', slippage => {
+      expect(() => AmountMath.slippageToBps(slippage)).toThrow('Slippage must be 0 or at least 1 basis point (0.0001)');
+    });
+  });
+
+  describe('applySlippage', () => {
+    it('rounds minimums down by default', () => {
+      expect(AmountMath.applySlippage(999n, 50)).toBe(994n);
+      expect(AmountMath.applySlippage(999n, 50, 'up')).toBe(995n);
+    });
+
+    it('rejects fractional or out-of-range basis points', () => {
+      expect(() => AmountMath.applySlippage(1n, 0.5)).toThrow(ValidationError);
+      expect(() => AmountMath.applySlippage(1n, 10_001)).toThrow(ValidationError);
+    });
+  });
+
+  describe('18-decimal amounts', () => {
+    const token = { decimals: 18, address: '0x0000000000000000000000000000000000000001', symbol: 'WETH' };
+
+    it('parses and formats values beyond float precision exactly', () => {
+      const amount = AmountMath.parse('123456789012345678.123456789012345678', token);
+      expect(amount.raw).toBe(123456789012345678123456789012345678n);
+      expect(AmountMath.format(amount)).toBe('123456789012345678.123456789012345678');
+    });
+
+    it('applies slippage to large values without losing precision', () => {
+      const raw = 10n ** 36n + 1n;
+      expect(AmountMath.applySlippage(raw, 50)).toBe(995n * 10n ** 33n);
+    });
+
+    it('limits displayed decimals using the rounding mode', () => {
+      const amount = AmountMath.of(1_234_567_890_123_456_789n, token);
+      expect(AmountMath.format(amount, { maxDecimals: 4 })).toBe('1.2346');
+      expect(AmountMath.format(amount, { maxDecimals: 4, rounding: 'down' })).toBe('1.2345');
+      expect(AmountMath.format(amount, { maxDecimals: 2, withSymbol: true })).toBe('1.23 WETH');
+    });
+  });
+
+  describe('add and sub', () => {
+    it('rejects amounts of different tokens', () => {
+      const a = AmountMath.of(1n, { decimals: 18, address: '0x0000000000000000000000000000000000000001' });
+      const b = AmountMath.of(1n, { decimals: 18, address: '0x0000000000000000000000000000000000000002' });
+      expect(() => AmountMath.add(a, b)).toThrow(ValidationError);
+      expect(AmountMath.sub(a, a).raw).toBe(0n);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Token Amounts
+ *
+ * Fixed-point token amounts and slippage math. Amounts stay in raw bigint
+ * units bound to their token's decimals, slippage is expressed in basis
+ * points, and every division takes an explicit rounding mode, so nothing is
+ * routed through floating point.
+ */
+
+import { formatUnits, parseUnits } from 'viem';
+import { ValidationError } from './steer-types';
+
+// How a division result is rounded to an integer
+// - down: toward zero
+// - up: away from zero
+// - half-up: to nearest, ties away from zero
+// - half-even: to nearest, ties to the even neighbour
+type RoundingMode = 'down' | 'up' | 'half-up' | 'half-even';
+
+// Raw token amount bound to the token's decimals
+interface Amount {
+  raw: bigint;
+  decimals: number;
+  token?: string;
+  symbol?: string;
+}
+
+// Anything carrying token decimals, such as a resolved TokenInfo
+interface AmountToken {
+  decimals: number;
+  address?: string;
+  symbol?: string;
+}
+
+interface FormatOptions {
+  // Maximum fractional digits to show; defaults to the token's decimals
+  maxDecimals?: number;
+  rounding?: RoundingMode;
+  withSymbol?: boolean;
+}
+
+const BPS_DENOMINATOR = 10_000n;
+
+/**
+ * Amount Math
+ */
+export class AmountMath {
+  /**
+   * Bind a raw amount to a token
+   */
+  static of(raw: bigint, token: AmountToken): Amount {
+    return { raw, decimals: token.decimals, token: token.address, symbol: token.symbol };
+  }
+
+  /**
+   * Parse a human-readable amount such as "1.5" for a token
+   */
+  static parse(value: string, token: AmountToken): Amount {
+    return AmountMath.of(parseUnits(value, token.decimals), token);
+  }
+
+  /**
+   * Format an amount, optionally limited to `maxDecimals` fractional digits
+   */
+  static format(amount: Amount, options: FormatOptions = {}): string {
+    let raw = amount.raw;
+    const maxDecimals = options.maxDecimals ?? amount.decimals;
+    if (maxDecimals < amount.decimals) {
+      const step = 10n ** BigInt(amount.decimals - maxDecimals);
+      raw = AmountMath.mulDiv(raw, 1n, step, options.rounding ?? 'half-up') * step;
+    }
+
+    const formatted = formatUnits(raw, amount.decimals);
+    return options.withSymbol && amount.symbol ? `${formatted} ${amount.symbol}` : formatted;
+  }
+
+  /**
+   * Convert a slippage fraction (0.005 = 0.5%) to basis points
+   *
+   * Non-zero slippage below 1 bps is rejected rather than rounded to 0, which
+   * would demand the exact quoted amounts.
+   */
+  static slippageToBps(slippage: number): number {
+    if (!Number.isFinite(slippage) || slippage < 0 || slippage > 1) {
+      throw new ValidationError('Slippage must be between 0 and 1', 'slippage');
+    }
+    const bps = slippage * 10_000;
+    // Tolerance for fractions like 0.0001 that are not exact in binary
+    if (slippage > 0 && bps < 1 - 1e-9) {
+      throw new ValidationError('Slippage must be 0 or at least 1 basis point (0.0001)', 'slippage');
+    }
+    return Math.round(bps);
+  }
+
+  /**
+   * Compute `value * numerator / denominator` exactly, rounding as requested
+   */
+  static mulDiv(value: bigint, numerator: bigint, denominator: bigint, rounding: RoundingMode = 'down'): bigint {
+    if (denominator === 0n) {
+      throw new ValidationError('Division by zero', 'denominator');
+    }
+
+    const product = value * numerator;
+    const quotient = product / denominator;
+    const remainder = product % denominator;
+    if (remainder === 0n) {
+      return quotient;
+    }
+
+    const negative = (product < 0n) !== (denominator < 0n);
+    const awayFromZero = negative ? quotient - 1n : quotient + 1n;
+    const twiceRemainder = 2n * (remainder < 0n ? -remainder : remainder);
+    const absDenominator = denominator < 0n ? -denominator : denominator;
+
+    switch (rounding) {
+      case 'down':
+        return quotient;
+      case 'up':
+        return awayFromZero;
+      case 'half-up':
+        return twiceRemainder >= absDenominator ? awayFromZero : quotient;
+      case 'half-even':
+        if (twiceRemainder === absDenominator) {
+          return quotient % 2n === 0n ? quotient : awayFromZero;
+        }
+        return twiceRemainder > absDenominator ? awayFromZero : quotient;
+    }
+  }
+
+  /**
+   * Reduce a raw amount by `slippageBps`
+   *
+   * Rounds down by default, so a minimum is never stricter than the tolerance allows.
+   */
+  static applySlippage(raw: bigint, slippageBps: number, rounding: RoundingMode = 'down'): bigint {
+    if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps > 10_000) {
+      throw new ValidationError('Slippage must be an integer between 0 and 10000 bps', 'slippageBps');
+    }
+    return AmountMath.mulDiv(raw, BPS_DENOMINATOR - BigInt(slippageBps), BPS_DENOMINATOR, rounding);
+  }
+
+  /**
+   * Minimum acceptable amount after `slippageBps`
+   */
+  static minimum(amount: Amount, slippageBps: number): Amount {
+    return { ...amount, raw: AmountMath.applySlippage(amount.raw, slippageBps) };
+  }
+
+  /**
+   * Add two amounts of the same token
+   */
+  static add(a: Amount, b: Amount): Amount {
+    AmountMath.assertSameToken(a, b);
+    return { ...a, raw: a.raw + b.raw };
+  }
+
+  /**
+   * Subtract two amounts of the same token
+   */
+  static sub(a: Amount, b: Amount): Amount {
+    AmountMath.assertSameToken(a, b);
+    return { ...a, raw: a.raw - b.raw };
+  }
+
+  private static assertSameToken(a: Amount, b: Amount): void {
+    const differentToken = a.token && b.token && a.token.toLowerCase() !== b.token.toLowerCase();
+    if (a.decimals !== b.decimals || differentToken) {
+      throw new ValidationError('Cannot combine amounts of different tokens', 'amount');
+    }
+  }
+}
+
+// Export types
+export type { RoundingMode, Amount, AmountToken, FormatOptions };
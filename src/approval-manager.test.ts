@@ -0,0 +1,60 @@
+import { Address } from 'viem';
+import { ApprovalManager } from './approval-manager';
+
+describe('ApprovalManager revoke-after-use', () => {
+  const token: Address = '0x2222222222222222222222222222222222222222';
+  const owner: Address = '0x4444444444444444444444444444444444444444';
+  const spender: Address = '0x1111111111111111111111111111111111111111';
+
+  // Manager whose allowance reads return `allowances` in turn
+  function createManager(allowances: bigint[]) {
+    const readContract = jest.fn();
+    allowances.forEach(allowance => readContract.mockResolvedValueOnce(allowance));
+    const publicClient = { readContract, waitForTransactionReceipt: jest.fn(async () => ({ status: 'success' })) };
+    const writeContract = jest.fn(async () => '0xapprove');
+    const manager = new ApprovalManager(publicClient, { writeContract });
+    const approvals = () => writeContract.mock.calls.map(([call]: any[]) => call.args[1]);
+    return { manager, approvals };
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('approves on top of a partial allowance and restores it after use', async () => {
+    // 300 granted before, 1000 needed; the deposit then pulls the 1000
+    const { manager, approvals } = createManager([300n, 300n]);
+
+    const approval = await manager.authorize(token, owner, spender, 1000n, { policy: 'revoke-after-use' });
+    const hashes = await manager.revokeUnused([[token, approval]], owner, spender);
+
+    expect(approval).toMatchObject({ method: 'approve', revokeAfterUse: true, previousAllowance: 300n });
+    expect(approvals()).toEqual([1300n]);
+    expect(hashes).toEqual([]);
+  });
+
+  it('restores the previous allowance when the deposit did not use it', async () => {
+    const { manager, approvals } = createManager([300n, 1300n]);
+
+    const approval = await manager.authorize(token, owner, spender, 1000n, { policy: 'revoke-after-use' });
+    const hashes = await manager.revokeUnused([[token, approval]], owner, spender);
+
+    expect(approvals()).toEqual([1300n, 300n]);
+    expect(hashes).toEqual(['0xapprove']);
+  });
+
+  it('leaves an allowance that already covers the amount untouched', async () => {
+    const { manager, approvals } = createManager([5000n]);
+
+    const approval = await manager.authorize(token, owner, spender, 1000n, { policy: 'revoke-after-use' });
+    const hashes = await manager.revokeUnused([[token, approval]], owner, spender);
+
+    expect(approval).toEqual({ method: 'allowance', revokeAfterUse: false });
+    expect(approvals()).toEqual([]);
+    expect(hashes).toEqual([]);
+  });
+});
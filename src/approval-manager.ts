@@ -0,0 +1,252 @@
+/**
+ * Approval Manager
+ *
+ * Token approvals for Steer vault and periphery deposits and the zap swap:
+ * resolves the contract that actually pulls the tokens, applies an allowance
+ * policy, signs EIP-2612 permits for spenders that consume them, and lists or
+ * revokes a user's outstanding allowances.
+ */
+
+import { Address, erc20Abi, maxUint256 } from 'viem';
+import { PermitSigner, type SignedPermit } from './permit-signer';
+import { toContractCall } from './prepared-tx';
+import { getChainContracts } from './steer-config';
+import { VaultMetadataResolver, type TokenInfo } from './vault-metadata';
+
+// How much allowance to grant when one is needed
+// - exact: the amount being deposited
+// - infinite: maxUint256, so later deposits skip approval
+// - revoke-after-use: the exact amount on top of any existing allowance, which is
+//   restored once the deposit lands
+type ApprovalPolicy = 'exact' | 'infinite' | 'revoke-after-use';
+
+// How a token was authorized
+type ApprovalMethod = 'allowance' | 'permit' | 'approve';
+
+interface AuthorizationOptions {
+  policy?: ApprovalPolicy;
+  // The spender's call consumes a signed EIP-2612 permit (default false)
+  spenderAcceptsPermit?: boolean;
+}
+
+interface AuthorizationResult {
+  method: ApprovalMethod;
+  // Approval transaction hash
+  hash?: string;
+  // Signed permit to pass into the spender's call; nothing is sent on-chain
+  permit?: SignedPermit;
+  // The allowance should be revoked once the spender has used it
+  revokeAfterUse: boolean;
+  // Allowance before this authorization, restored by `revokeUnused`
+  previousAllowance?: bigint;
+}
+
+interface AllowanceEntry {
+  token: TokenInfo;
+  spender: Address;
+  allowance: bigint;
+}
+
+/**
+ * Approval Manager
+ */
+export class ApprovalManager {
+  private publicClient: any;
+  private walletClient: any;
+  private permitSigner: PermitSigner;
+  private vaultResolver: VaultMetadataResolver;
+
+  constructor(publicClient: any, walletClient: any) {
+    this.publicClient = publicClient;
+    this.walletClient = walletClient;
+    this.permitSigner = new PermitSigner(publicClient, walletClient);
+    this.vaultResolver = new VaultMetadataResolver(publicClient);
+  }
+
+  /**
+   * Resolve the spender for a prepared deposit
+   *
+   * The contract the deposit calls is the one that pulls the tokens: the vault
+   * for direct deposits, the periphery for `isSteerPeriphery` deposits.
+   */
+  static resolveSpender(preparedTx: any): Address {
+    const call = toContractCall(preparedTx);
+    if (!call) {
+      throw new Error('Cannot resolve spender from invalid prepared transaction');
+    }
+    return call.address;
+  }
+
+  /**
+   * Read the allowance granted by `owner` to `spender`
+   */
+  async getAllowance(token: Address, owner: Address, spender: Address): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: 'allowance',
+      args: [owner, spender]
+    });
+  }
+
+  /**
+   * Send an `approve` transaction and wait for it to confirm
+   */
+  async approve(token: Address, spender: Address, amount: bigint, account?: Address): Promise<string> {
+    const hash = await this.walletClient.writeContract({
+      account,
+      address: token,
+      abi: erc20Abi,
+      functionName: 'approve',
+      args: [spender, amount]
+    });
+
+    const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== 'success') {
+      throw new Error(`Approval transaction reverted: ${hash}`);
+    }
+    return hash;
+  }
+
+  /**
+   * Make sure `spender` can pull `amount` of a token under the given policy
+   *
+   * Spenders that consume permits (`spenderAcceptsPermit`) get a signed
+   * EIP-2612 permit when the token supports one, to embed in the spender's
+   * call. Steer vaults and the periphery take no permit in their deposit
+   * calls, so for them a missing allowance is granted with an `approve`
+   * transaction, as it is for tokens without permit support.
+   */
+  async authorize(
+    token: TokenInfo | Address,
+    owner: Address,
+    spender: Address,
+    amount: bigint,
+    options: AuthorizationOptions = {}
+  ): Promise<AuthorizationResult> {
+    const policy = options.policy ?? 'exact';
+    const address = typeof token === 'string' ? token : token.address as Address;
+    const label = typeof token === 'string' ? token : token.symbol;
+    const allowance = await this.getAllowance(address, owner, spender);
+    if (allowance >= amount) {
+      return { method: 'allowance', revokeAfterUse: false };
+    }
+
+    // Under 'revoke-after-use', keep any partial allowance the user granted so revoking can restore it
+    const revokeAfterUse = policy === 'revoke-after-use';
+    const approvalAmount = policy === 'infinite' ? maxUint256 : revokeAfterUse ? allowance + amount : amount;
+    const previous = revokeAfterUse ? { previousAllowance: allowance } : {};
+
+    if (options.spenderAcceptsPermit) {
+      try {
+        if (await this.permitSigner.supportsPermit(address, owner)) {
+          console.log(`✍️  Signing ${label} permit (${policy})...`);
+          const permit = await this.permitSigner.signPermit(address, owner, spender, approvalAmount);
+          return { method: 'permit', permit, revokeAfterUse, ...previous };
+        }
+      } catch (error) {
+        console.warn(`⚠️  ${label} permit failed, falling back to approve:`, error);
+      }
+    }
+
+    console.log(`🔐 Approving ${label} (${policy})...`);
+    const hash = await this.approve(address, spender, approvalAmount, owner);
+    console.log(`✅ ${label} approved: ${hash}`);
+
+    return { method: 'approve', hash, revokeAfterUse, ...previous };
+  }
+
+  /**
+   * Reset allowances granted under the 'revoke-after-use' policy
+   *
+   * Call once the spender is done, whether or not its transaction succeeded,
+   * so a failed transaction does not leave an allowance behind. Each allowance
+   * is set back to what it was before `authorize`, and only when the spender
+   * left it somewhere else.
+   */
+  async revokeUnused(
+    approvals: [TokenInfo | Address, AuthorizationResult][],
+    owner: Address,
+    spender: Address
+  ): Promise<string[]> {
+    const hashes: string[] = [];
+    for (const [token, approval] of approvals) {
+      if (!approval.revokeAfterUse) {
+        continue;
+      }
+      const address = typeof token === 'string' ? token : token.address as Address;
+      const previous = approval.previousAllowance ?? 0n;
+      if (await this.getAllowance(address, owner, spender) !== previous) {
+        console.log(`🧹 Restoring allowance on ${address} for ${spender} to ${previous}...`);
+        hashes.push(await this.approve(address, spender, previous, owner));
+      }
+    }
+    return hashes;
+  }
+
+  /**
+   * List non-zero allowances from `owner` to Steer vaults and extra spenders
+   *
+   * Each vault is checked for its own token0/token1 against the vault itself,
+   * the chain's Steer periphery and every address in `spenders`.
+   */
+  async listAllowances(owner: Address, vaultAddresses: string[], spenders: Address[] = []): Promise<AllowanceEntry[]> {
+    const chainId: number = this.publicClient.chain?.id ?? await this.publicClient.getChainId();
+    const { steerPeriphery } = getChainContracts(chainId);
+    const vaultInfos = await this.vaultResolver.resolveMany(vaultAddresses);
+
+    const pairs: { token: TokenInfo; spender: Address }[] = [];
+    const seen = new Set<string>();
+    vaultInfos.forEach(vaultInfo => {
+      if (!vaultInfo) {
+        return;
+      }
+      for (const token of [vaultInfo.token0, vaultInfo.token1]) {
+        for (const spender of [vaultInfo.address as Address, steerPeriphery, ...spenders]) {
+          const key = `${token.address.toLowerCase()}:${spender.toLowerCase()}`;
+          if (!seen.has(key)) {
+            seen.add(key);
+            pairs.push({ token, spender });
+          }
+        }
+      }
+    });
+
+    if (pairs.length === 0) {
+      return [];
+    }
+
+    const results = await this.publicClient.multicall({
+      contracts: pairs.map(({ token, spender }) => ({
+        address: token.address as Address,
+        abi: erc20Abi,
+        functionName: 'allowance',
+        args: [owner, spender]
+      })),
+      allowFailure: true
+    });
+
+    return pairs
+      .map((pair, i) => ({
+        ...pair,
+        allowance: results[i].status === 'success' ? (results[i].result as bigint) : 0n
+      }))
+      .filter(entry => entry.allowance > 0n);
+  }
+
+  /**
+   * Reset allowances to zero, returning the revoke transaction hashes
+   */
+  async revokeAllowances(owner: Address, entries: { token: TokenInfo | Address; spender: Address }[]): Promise<string[]> {
+    const hashes: string[] = [];
+    for (const entry of entries) {
+      const token = typeof entry.token === 'string' ? entry.token : entry.token.address as Address;
+      console.log(`🧹 Revoking allowance on ${token} for ${entry.spender}...`);
+      hashes.push(await this.approve(token, entry.spender, 0n, owner));
+    }
+    return hashes;
+  }
+}
+
+// Export types
+export type { ApprovalPolicy, ApprovalMethod, AuthorizationOptions, AuthorizationResult, AllowanceEntry };
@@ -0,0 +1,53 @@
+import { Address, parseAbi } from 'viem';
+import { avalanche } from 'viem/chains';
+import { GasEstimator } from './gas-estimator';
+
+const VAULT: Address = '0x1111111111111111111111111111111111111111';
+const USER: Address = '0x4444444444444444444444444444444444444444';
+
+const preparedTx = {
+  address: VAULT,
+  abi: parseAbi(['function withdraw(uint256 shares)']),
+  functionName: 'withdraw',
+  args: [1n]
+};
+
+// Public client estimating 100k gas at a 10 gwei base fee with a 1 gwei tip
+function createClient(chain: unknown, chainId: number) {
+  return {
+    chain,
+    getChainId: jest.fn(async () => chainId),
+    estimateContractGas: jest.fn(async () => 100_000n),
+    getFeeHistory: jest.fn(async () => ({ baseFeePerGas: [10n ** 10n], reward: [[10n ** 9n]] }))
+  };
+}
+
+describe('GasEstimator', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("prices gas in the client chain's native currency", async () => {
+    const result = await new GasEstimator(createClient(avalanche, 43114)).estimate(preparedTx, USER);
+
+    expect(result).toMatchObject({ gasEstimate: 100_000n, gasCostInNative: '0.0011', nativeSymbol: 'AVAX' });
+  });
+
+  it('looks up a supported chain when the client has no chain definition', async () => {
+    const result = await new GasEstimator(createClient(undefined, 56)).estimate(preparedTx, USER);
+
+    expect(result.nativeSymbol).toBe('BNB');
+  });
+
+  it('reports an unknown native currency instead of guessing one', async () => {
+    const result = await new GasEstimator(createClient(undefined, 999)).estimate(preparedTx, USER);
+
+    expect(result).toMatchObject({ gasEstimate: 100_000n, error: 'Native currency for chain 999 not found' });
+    expect(result.nativeSymbol).toBeUndefined();
+    expect(result.gasCostInNative).toBeUndefined();
+  });
+});
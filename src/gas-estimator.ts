@@ -0,0 +1,219 @@
+/**
+ * Gas Estimator
+ *
+ * EIP-1559 aware gas estimation for prepared contract calls. Fees are derived
+ * from the chain's recent base fee and priority fee history, and costs are
+ * reported in the chain's native currency and optionally in USD.
+ */
+
+import { Address, formatUnits } from 'viem';
+import { NativeCurrencyHelper } from './native-currency';
+import { toContractCall } from './prepared-tx';
+import { TxSimulator, type DecodedRevert } from './tx-simulator';
+
+// Returns the USD price of one unit of the chain's native currency, or null when unknown
+type NativePriceSource = (chainId: number) => Promise<number | null>;
+
+interface GasEstimatorOptions {
+  // Extra headroom added to the estimated gas limit, in basis points
+  gasLimitBufferBps?: number;
+  // Headroom added to the next block's base fee when deriving maxFeePerGas, in basis points
+  baseFeeBufferBps?: number;
+  // Number of recent blocks sampled for priority fees
+  feeHistoryBlocks?: number;
+  // Percentile of priority fees paid in sampled blocks
+  priorityFeePercentile?: number;
+  priceSource?: NativePriceSource;
+}
+
+interface FeeEstimate {
+  baseFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  maxFeePerGas: bigint;
+  eip1559: boolean;
+}
+
+interface GasEstimationResult {
+  gasEstimate: bigint | null;
+  gasLimit?: bigint;
+  willRevert: boolean;
+  revert?: DecodedRevert;
+  error?: string;
+  baseFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  maxFeePerGas?: bigint;
+  // Expected cost at the current base fee plus priority fee
+  gasCostInNative?: string;
+  // Upper bound at the buffered gas limit and maxFeePerGas
+  maxGasCostInNative?: string;
+  nativeSymbol?: string;
+  gasCostInUsd?: number;
+}
+
+const BPS_DENOMINATOR = 10_000n;
+
+/**
+ * Gas Estimator
+ *
+ * Chains without EIP-1559 fee history fall back to the legacy gas price.
+ * Costs are only reported when the chain's native currency is known.
+ */
+export class GasEstimator {
+  private publicClient: any;
+  private nativeCurrency: NativeCurrencyHelper;
+  private options: Required<Omit<GasEstimatorOptions, 'priceSource'>> & Pick<GasEstimatorOptions, 'priceSource'>;
+
+  constructor(publicClient: any, options: GasEstimatorOptions = {}) {
+    this.publicClient = publicClient;
+    // Only reads the chain's native currency, so no wallet client is needed
+    this.nativeCurrency = new NativeCurrencyHelper(publicClient, null);
+    this.options = {
+      gasLimitBufferBps: options.gasLimitBufferBps ?? 2000,
+      baseFeeBufferBps: options.baseFeeBufferBps ?? 2500,
+      feeHistoryBlocks: options.feeHistoryBlocks ?? 10,
+      priorityFeePercentile: options.priorityFeePercentile ?? 50,
+      priceSource: options.priceSource
+    };
+  }
+
+  /**
+   * Estimate gas and cost for a prepared contract call
+   */
+  async estimate(preparedTx: any, account: Address): Promise<GasEstimationResult> {
+    const call = toContractCall(preparedTx);
+    if (!call) {
+      return {
+        gasEstimate: null,
+        willRevert: true,
+        error: 'Invalid prepared transaction data'
+      };
+    }
+
+    let gasEstimate: bigint;
+    try {
+      gasEstimate = await this.publicClient.estimateContractGas({
+        address: call.address,
+        abi: call.abi,
+        functionName: call.functionName,
+        args: call.args,
+        value: call.value,
+        account
+      });
+    } catch (error: any) {
+      const revert = TxSimulator.decodeRevert(error, call.abi);
+      return {
+        gasEstimate: null,
+        willRevert: revert !== null,
+        revert: revert ?? undefined,
+        error: error?.shortMessage || error?.message || 'Unknown error during gas estimation'
+      };
+    }
+
+    const gasLimit = gasEstimate + (gasEstimate * BigInt(this.options.gasLimitBufferBps)) / BPS_DENOMINATOR;
+    const fees = await this.estimateFees();
+    if (!fees) {
+      return {
+        gasEstimate,
+        gasLimit,
+        willRevert: false,
+        error: 'Fee data unavailable'
+      };
+    }
+
+    let nativeCurrency: { symbol: string; decimals: number };
+    try {
+      nativeCurrency = await this.nativeCurrency.getNativeCurrency();
+    } catch (error) {
+      console.error('❌ Cannot price gas without the native currency:', error);
+      return {
+        gasEstimate,
+        gasLimit,
+        willRevert: false,
+        baseFeePerGas: fees.baseFeePerGas,
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+        maxFeePerGas: fees.maxFeePerGas,
+        error: error instanceof Error ? error.message : 'Native currency unknown'
+      };
+    }
+
+    const expectedCostWei = gasEstimate * (fees.baseFeePerGas + fees.maxPriorityFeePerGas);
+    const maxCostWei = gasLimit * fees.maxFeePerGas;
+
+    const result: GasEstimationResult = {
+      gasEstimate,
+      gasLimit,
+      willRevert: false,
+      baseFeePerGas: fees.baseFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+      maxFeePerGas: fees.maxFeePerGas,
+      gasCostInNative: formatUnits(expectedCostWei, nativeCurrency.decimals),
+      maxGasCostInNative: formatUnits(maxCostWei, nativeCurrency.decimals),
+      nativeSymbol: nativeCurrency.symbol
+    };
+
+    if (this.options.priceSource) {
+      try {
+        const chainId = this.publicClient.chain?.id ?? await this.publicClient.getChainId();
+        const price = await this.options.priceSource(chainId);
+        if (price !== null) {
+          result.gasCostInUsd = Number(result.gasCostInNative) * price;
+        }
+      } catch (error) {
+        console.warn('⚠️  Failed to price gas cost in USD:', error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Derive fees from recent base fee and priority fee history
+   *
+   * Returns null when neither fee history nor the legacy gas price can be read.
+   */
+  async estimateFees(): Promise<FeeEstimate | null> {
+    try {
+      const history = await this.publicClient.getFeeHistory({
+        blockCount: this.options.feeHistoryBlocks,
+        rewardPercentiles: [this.options.priorityFeePercentile],
+        blockTag: 'latest'
+      });
+
+      // The last entry is the base fee of the next block
+      const baseFeePerGas: bigint | undefined = history.baseFeePerGas[history.baseFeePerGas.length - 1];
+      if (baseFeePerGas !== undefined) {
+        const rewards: bigint[] = (history.reward || [])
+          .map((blockRewards: bigint[]) => blockRewards[0])
+          .filter((reward: bigint | undefined) => reward !== undefined)
+          .sort((a: bigint, b: bigint) => (a < b ? -1 : a > b ? 1 : 0));
+        const maxPriorityFeePerGas = rewards.length > 0 ? rewards[Math.floor(rewards.length / 2)] : 0n;
+        const bufferedBaseFee = baseFeePerGas + (baseFeePerGas * BigInt(this.options.baseFeeBufferBps)) / BPS_DENOMINATOR;
+
+        return {
+          baseFeePerGas,
+          maxPriorityFeePerGas,
+          maxFeePerGas: bufferedBaseFee + maxPriorityFeePerGas,
+          eip1559: true
+        };
+      }
+    } catch (error) {
+      console.warn('⚠️  Fee history unavailable, using legacy gas price:', error);
+    }
+
+    try {
+      const gasPrice: bigint = await this.publicClient.getGasPrice();
+      return {
+        baseFeePerGas: gasPrice,
+        maxPriorityFeePerGas: 0n,
+        maxFeePerGas: gasPrice,
+        eip1559: false
+      };
+    } catch (error) {
+      console.warn('⚠️  Legacy gas price unavailable:', error);
+      return null;
+    }
+  }
+}
+
+// Export types
+export type { GasEstimationResult, GasEstimatorOptions, NativePriceSource, FeeEstimate };
@@ -12,3 +12,26 @@ export * from './steer-pool-pending-rewards';
 
 // Shared utilities and types
 export * from './utils';
+export * from './amount';
+
+// Shared vault metadata, pre-flight checks, receipt decoding, swap, permit, approval and native currency helpers
+export * from './vault-metadata';
+export * from './vault-receipts';
+export * from './vault-preflight';
+export * from './pool-swap';
+export * from './permit-signer';
+export * from './approval-manager';
+export * from './native-currency';
+
+// Transaction cost estimation, simulation, nonce management and safety guards
+export * from './prepared-tx';
+export * from './gas-estimator';
+export * from './tx-simulator';
+export * from './nonce-manager';
+export * from './tx-guards';
+
+// Per-chain configuration
+export * from './steer-config';
+
+// Signers for private keys, mnemonics and keystores
+export * from './signer-factory';
@@ -0,0 +1,136 @@
+/**
+ * Native Currency Helpers
+ *
+ * Wraps and unwraps the chain's native currency (AVAX, MATIC, ETH, BNB) so
+ * vaults paired with the wrapped token can be entered and exited natively.
+ */
+
+import { Address, Chain, erc20Abi, isAddressEqual } from 'viem';
+import { arbitrum, avalanche, base, bsc, optimism, polygon } from 'viem/chains';
+import { wrappedNativeAbi } from './steer-abis';
+import { getChainContracts } from './steer-config';
+import { NotFoundError } from './steer-types';
+
+// Supported chains, for clients created without a chain definition
+const SUPPORTED_CHAINS: Chain[] = [avalanche, polygon, arbitrum, optimism, bsc, base];
+
+/**
+ * Native Currency Helper
+ *
+ * The wrapped-native address is resolved from the chain the public client is
+ * connected to. Every write waits for its receipt before returning.
+ */
+export class NativeCurrencyHelper {
+  private publicClient: any;
+  private walletClient: any;
+
+  constructor(publicClient: any, walletClient: any) {
+    this.publicClient = publicClient;
+    this.walletClient = walletClient;
+  }
+
+  /**
+   * Get the native currency of the connected chain
+   *
+   * Read from the client's chain definition, or from viem's definition of a
+   * supported chain when the client has none.
+   *
+   * @throws NotFoundError when the chain is neither defined nor supported
+   */
+  async getNativeCurrency(): Promise<Chain['nativeCurrency']> {
+    const chain: Chain | undefined = this.publicClient.chain;
+    if (chain?.nativeCurrency) {
+      return chain.nativeCurrency;
+    }
+
+    const chainId: number = await this.publicClient.getChainId();
+    const supported = SUPPORTED_CHAINS.find(candidate => candidate.id === chainId);
+    if (!supported) {
+      throw new NotFoundError(`Native currency for chain ${chainId}`);
+    }
+    return supported.nativeCurrency;
+  }
+
+  /**
+   * Get the wrapped native token address for the connected chain
+   */
+  async getWrappedNativeAddress(): Promise<Address> {
+    const chainId = this.publicClient.chain?.id ?? await this.publicClient.getChainId();
+    return getChainContracts(chainId).wrappedNative;
+  }
+
+  /**
+   * Check whether a token is the connected chain's wrapped native token
+   */
+  async isWrappedNative(tokenAddress: string): Promise<boolean> {
+    return isAddressEqual(tokenAddress as Address, await this.getWrappedNativeAddress());
+  }
+
+  /**
+   * Get the native currency balance of an address
+   */
+  async getNativeBalance(address: Address): Promise<bigint> {
+    return this.publicClient.getBalance({ address });
+  }
+
+  /**
+   * Wrap native currency into the wrapped token
+   */
+  async wrap(amount: bigint, account: Address): Promise<string> {
+    const hash = await this.walletClient.writeContract({
+      account,
+      address: await this.getWrappedNativeAddress(),
+      abi: wrappedNativeAbi,
+      functionName: 'deposit',
+      value: amount
+    });
+    await this.waitForSuccess(hash, 'Wrap');
+    return hash;
+  }
+
+  /**
+   * Unwrap the wrapped token back into native currency
+   */
+  async unwrap(amount: bigint, account: Address): Promise<string> {
+    const hash = await this.walletClient.writeContract({
+      account,
+      address: await this.getWrappedNativeAddress(),
+      abi: wrappedNativeAbi,
+      functionName: 'withdraw',
+      args: [amount]
+    });
+    await this.waitForSuccess(hash, 'Unwrap');
+    return hash;
+  }
+
+  /**
+   * Send native currency to another address
+   */
+  async sendNative(to: Address, amount: bigint, account: Address): Promise<string> {
+    const hash = await this.walletClient.sendTransaction({ account, to, value: amount });
+    await this.waitForSuccess(hash, 'Native transfer');
+    return hash;
+  }
+
+  /**
+   * Send an ERC-20 token to another address
+   */
+  async sendToken(token: Address, to: Address, amount: bigint, account: Address): Promise<string> {
+    const hash = await this.walletClient.writeContract({
+      account,
+      address: token,
+      abi: erc20Abi,
+      functionName: 'transfer',
+      args: [to, amount]
+    });
+    await this.waitForSuccess(hash, 'Token transfer');
+    return hash;
+  }
+
+  private async waitForSuccess(hash: string, label: string): Promise<void> {
+    const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== 'success') {
+      throw new Error(`${label} transaction reverted: ${hash}`);
+    }
+  }
+}
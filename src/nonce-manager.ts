@@ -0,0 +1,55 @@
+/**
+ * Nonce Manager
+ *
+ * Hands out sequential nonces for an account so several transactions can be
+ * submitted back to back without waiting for each one to be mined.
+ */
+
+import { Address } from 'viem';
+
+/**
+ * Nonce Manager
+ *
+ * The first nonce is read from the account's pending transaction count. A
+ * failed submission resets the manager, so the next nonce is read from the
+ * chain again instead of leaving a gap.
+ */
+export class NonceManager {
+  private publicClient: any;
+  private address: Address;
+  private nextNonce: number | null = null;
+
+  constructor(publicClient: any, address: Address) {
+    this.publicClient = publicClient;
+    this.address = address;
+  }
+
+  /**
+   * Get the nonce for the next transaction without consuming it
+   */
+  async peek(): Promise<number> {
+    if (this.nextNonce === null) {
+      this.nextNonce = await this.publicClient.getTransactionCount({
+        address: this.address,
+        blockTag: 'pending'
+      });
+    }
+    return this.nextNonce as number;
+  }
+
+  /**
+   * Mark the peeked nonce as used by a submitted transaction
+   */
+  advance(): void {
+    if (this.nextNonce !== null) {
+      this.nextNonce += 1;
+    }
+  }
+
+  /**
+   * Forget the local nonce so the next one is read from the chain
+   */
+  reset(): void {
+    this.nextNonce = null;
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Permit Signer
+ *
+ * EIP-2612 permits for spenders that consume the signature in their own call.
+ * Steer vaults and the periphery take no permit, so this is only used for the
+ * zap swap leg, where SwapRouter02's `selfPermit` redeems the signature in the
+ * same multicall as the swap.
+ */
+
+import { Address, domainSeparator, erc20Abi, Hex, parseSignature } from 'viem';
+import { erc20PermitAbi } from './steer-abis';
+
+// Default validity window for signed permits, in seconds
+const DEFAULT_PERMIT_TTL = 30 * 60;
+
+// Signed EIP-2612 permit, for a spender call that consumes it
+interface SignedPermit {
+  token: Address;
+  owner: Address;
+  spender: Address;
+  value: bigint;
+  deadline: bigint;
+  v: number;
+  r: Hex;
+  s: Hex;
+}
+
+const EIP2612_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' }
+  ]
+} as const;
+
+/**
+ * Permit Signer
+ *
+ * A token only counts as supporting EIP-2612 when the domain separator rebuilt
+ * from its name, version and chain matches the one it exposes, because a
+ * mismatched domain produces a signature the token will reject.
+ */
+export class PermitSigner {
+  private publicClient: any;
+  private walletClient: any;
+
+  constructor(publicClient: any, walletClient: any) {
+    this.publicClient = publicClient;
+    this.walletClient = walletClient;
+  }
+
+  /**
+   * Check whether a token accepts EIP-2612 permits signed by `owner`
+   */
+  async supportsPermit(token: Address, owner: Address): Promise<boolean> {
+    const domain = await this.readDomain(token, owner);
+    if (!domain) {
+      return false;
+    }
+
+    const [separator] = await this.publicClient.multicall({
+      contracts: [{ address: token, abi: erc20PermitAbi, functionName: 'DOMAIN_SEPARATOR' }],
+      allowFailure: true
+    });
+    if (separator.status !== 'success') {
+      return false;
+    }
+
+    const expected = domainSeparator({ domain: { ...domain.domain, verifyingContract: token } });
+    return expected.toLowerCase() === separator.result.toLowerCase();
+  }
+
+  /**
+   * Sign an EIP-2612 permit letting `spender` pull `value` of a token
+   */
+  async signPermit(
+    token: Address,
+    owner: Address,
+    spender: Address,
+    value: bigint,
+    ttlSeconds: number = DEFAULT_PERMIT_TTL
+  ): Promise<SignedPermit> {
+    const domain = await this.readDomain(token, owner);
+    if (!domain) {
+      throw new Error(`Token ${token} does not support EIP-2612 permit`);
+    }
+
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + ttlSeconds);
+    const signature = await this.walletClient.signTypedData({
+      account: owner,
+      domain: { ...domain.domain, verifyingContract: token },
+      types: EIP2612_TYPES,
+      primaryType: 'Permit',
+      message: { owner, spender, value, nonce: domain.nonce, deadline }
+    });
+
+    const { r, s, v, yParity } = parseSignature(signature);
+    return {
+      token,
+      owner,
+      spender,
+      value,
+      deadline,
+      v: v !== undefined ? Number(v) : yParity + 27,
+      r,
+      s
+    };
+  }
+
+  /**
+   * Read the token's permit domain and the owner's permit nonce, or null when it has none
+   */
+  private async readDomain(
+    token: Address,
+    owner: Address
+  ): Promise<{ domain: { name: string; version: string; chainId: number }; nonce: bigint } | null> {
+    const chainId: number = this.publicClient.chain?.id ?? await this.publicClient.getChainId();
+    const [name, version, nonce] = await this.publicClient.multicall({
+      contracts: [
+        { address: token, abi: erc20Abi, functionName: 'name' },
+        { address: token, abi: erc20PermitAbi, functionName: 'version' },
+        { address: token, abi: erc20PermitAbi, functionName: 'nonces', args: [owner] }
+      ],
+      allowFailure: true
+    });
+    if (name.status !== 'success' || nonce.status !== 'success') {
+      return null;
+    }
+
+    return {
+      domain: { name: name.result, version: version.status === 'success' ? version.result : '1', chainId },
+      nonce: nonce.result
+    };
+  }
+}
+
+// Export types
+export type { SignedPermit };
@@ -0,0 +1,160 @@
+import { decodeFunctionData, domainSeparator } from 'viem';
+import { PoolSwapper } from './pool-swap';
+import { getChainContracts } from './steer-config';
+import { swapRouterAbi } from './steer-abis';
+
+const Q96 = 2n ** 96n;
+
+describe('PoolSwapper.calculateZapSwapAmount', () => {
+  it('swaps half when the vault pairs equal amounts at price 1 without fees', () => {
+    expect(PoolSwapper.calculateZapSwapAmount(1000n, 1000n, Q96, 0, true)).toBe(500n);
+  });
+
+  it('swaps slightly more to cover the pool fee', () => {
+    // 1e12 / 1.997e9 = 500.75
+    expect(PoolSwapper.calculateZapSwapAmount(1000n, 1000n, Q96, 3000, true)).toBe(500n);
+    expect(PoolSwapper.calculateZapSwapAmount(10n ** 6n, 10n ** 6n, Q96, 3000, true)).toBe(500_751n);
+  });
+
+  it('inverts the price when swapping token1 for token0', () => {
+    // Price 4: one token0 buys four token1
+    const sqrtPriceX96 = 2n * Q96;
+    expect(PoolSwapper.calculateZapSwapAmount(1000n, 4000n, sqrtPriceX96, 0, true)).toBe(500n);
+    expect(PoolSwapper.calculateZapSwapAmount(4000n, 1000n, sqrtPriceX96, 0, false)).toBe(2000n);
+  });
+
+  it('leaves the remaining input and swap output at the vault ratio', () => {
+    const sqrtPriceX96 = 2n * Q96;
+    const amountIn = 10n ** 24n;
+    const pairedAmount = 3n * 10n ** 24n;
+    const swapAmount = PoolSwapper.calculateZapSwapAmount(amountIn, pairedAmount, sqrtPriceX96, 0, true);
+
+    const swapOut = swapAmount * 4n;
+    const remaining = amountIn - swapAmount;
+    // swapOut / remaining should equal pairedAmount / amountIn, up to one unit
+    // of rounding on the swap amount (which moves the cross product by 7 * amountIn)
+    const gap = swapOut * amountIn - remaining * pairedAmount;
+    expect(gap).toBeLessThanOrEqual(0n);
+    expect(gap).toBeGreaterThan(-7n * amountIn);
+  });
+
+  it('does not swap without an input or a paired amount', () => {
+    expect(PoolSwapper.calculateZapSwapAmount(0n, 1000n, Q96, 500, true)).toBe(0n);
+    expect(PoolSwapper.calculateZapSwapAmount(1000n, 0n, Q96, 500, true)).toBe(0n);
+  });
+});
+
+describe('PoolSwapper.isUniswapV3Pool', () => {
+  const pool = '0x5555555555555555555555555555555555555555';
+
+  function createSwapper(factory: Promise<string>) {
+    const publicClient = { chain: { id: 43114 }, readContract: jest.fn(() => factory) };
+    return new PoolSwapper(publicClient, {});
+  }
+
+  it("accepts pools from the chain's Uniswap V3 factory", async () => {
+    const factory = getChainContracts(43114).uniswapV3Factory.toLowerCase();
+
+    await expect(createSwapper(Promise.resolve(factory)).isUniswapV3Pool(pool)).resolves.toBe(true);
+  });
+
+  it('refuses pools from other factories and pools without one', async () => {
+    await expect(createSwapper(Promise.resolve('0x6666666666666666666666666666666666666666')).isUniswapV3Pool(pool)).resolves.toBe(false);
+    await expect(createSwapper(Promise.reject(new Error('execution reverted'))).isUniswapV3Pool(pool)).resolves.toBe(false);
+  });
+});
+
+describe('PoolSwapper.swapExactInput', () => {
+  const tokenIn = '0x2222222222222222222222222222222222222222';
+  const tokenOut = '0x3333333333333333333333333333333333333333';
+  const user = '0x4444444444444444444444444444444444444444';
+  const params = { tokenIn, tokenOut, fee: 500, amountIn: 1000n, amountOutMinimum: 0n, recipient: user } as const;
+
+  // EIP-2612 domain of a permit-capable `tokenIn`
+  const permitDomain = { name: 'Token', version: '1', chainId: 43114, verifyingContract: tokenIn } as const;
+
+  // Swapper whose router allowance reads return `allowances` in turn and whose swap ends with `swapStatus`;
+  // `tokenIn` supports EIP-2612 permits when `permit` is set
+  function createSwapper(allowances: bigint[], swapStatus: 'success' | 'reverted', permit = false) {
+    const readContract = jest.fn();
+    allowances.forEach(allowance => readContract.mockResolvedValueOnce(allowance));
+    const multicall = jest.fn(async ({ contracts }: { contracts: { functionName: string }[] }) =>
+      contracts.map(({ functionName }) => {
+        if (!permit) {
+          return { status: 'failure', error: new Error('execution reverted') };
+        }
+        const results: Record<string, unknown> = { name: 'Token', version: '1', nonces: 3n, DOMAIN_SEPARATOR: domainSeparator({ domain: permitDomain }) };
+        return { status: 'success', result: results[functionName] };
+      })
+    );
+    const publicClient = {
+      chain: { id: 43114 },
+      readContract,
+      multicall,
+      waitForTransactionReceipt: jest.fn(async ({ hash }: { hash: string }) => ({
+        status: hash === '0xswap' ? swapStatus : 'success',
+        logs: []
+      }))
+    };
+    const writeContract = jest.fn(async ({ functionName }: { functionName: string; args: any[] }) => functionName === 'approve' ? '0xapprove' : '0xswap');
+    const signTypedData = jest.fn(async () => `0x${'11'.repeat(32)}${'22'.repeat(32)}1b`);
+    const swapper = new PoolSwapper(publicClient, { writeContract, signTypedData });
+    return { swapper, writeContract, signTypedData };
+  }
+
+  const approvals = (writeContract: jest.Mock) =>
+    writeContract.mock.calls.filter(([call]) => call.functionName === 'approve').map(([call]) => call.args[1]);
+
+  beforeEach(() => {
+    for (const method of ['log', 'warn', 'error'] as const) {
+      jest.spyOn(console, method).mockImplementation(() => undefined);
+    }
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('approves the exact input and revokes it when the swap reverts', async () => {
+    const { swapper, writeContract } = createSwapper([0n, 1000n], 'reverted');
+
+    await expect(swapper.swapExactInput(params, user)).rejects.toThrow('Swap transaction reverted: 0xswap');
+
+    expect(approvals(writeContract)).toEqual([1000n, 0n]);
+  });
+
+  it('leaves nothing to revoke once the swap consumed the allowance', async () => {
+    const { swapper, writeContract } = createSwapper([0n, 0n], 'success');
+
+    await swapper.swapExactInput(params, user);
+
+    expect(approvals(writeContract)).toEqual([1000n]);
+  });
+
+  it('keeps an allowance the user already granted', async () => {
+    const { swapper, writeContract } = createSwapper([5000n], 'success');
+
+    await swapper.swapExactInput(params, user);
+
+    expect(approvals(writeContract)).toEqual([]);
+  });
+
+  it('redeems a signed permit in the same multicall as the swap', async () => {
+    const { swapper, writeContract, signTypedData } = createSwapper([0n, 0n], 'success', true);
+    const { swapRouter } = getChainContracts(43114);
+
+    await swapper.swapExactInput(params, user);
+
+    expect(approvals(writeContract)).toEqual([]);
+    expect(signTypedData).toHaveBeenCalledWith(expect.objectContaining({
+      domain: permitDomain,
+      message: expect.objectContaining({ owner: user, spender: swapRouter, value: 1000n, nonce: 3n })
+    }));
+
+    const [[call]] = writeContract.mock.calls;
+    expect(call).toMatchObject({ address: swapRouter, functionName: 'multicall' });
+    const [selfPermit, swap] = call.args[0].map((data: `0x${string}`) => decodeFunctionData({ abi: swapRouterAbi, data }));
+    expect(selfPermit).toMatchObject({ functionName: 'selfPermit', args: [tokenIn, 1000n, expect.any(BigInt), 27, `0x${'11'.repeat(32)}`, `0x${'22'.repeat(32)}`] });
+    expect(swap).toMatchObject({ functionName: 'exactInputSingle', args: [expect.objectContaining({ tokenIn, amountIn: 1000n })] });
+  });
+});
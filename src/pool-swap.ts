@@ -0,0 +1,252 @@
+/**
+ * Pool Swap Helpers
+ *
+ * Quotes and executes single-hop swaps against a vault's underlying Uniswap V3
+ * pool, used to rebalance single-token inputs and outputs around Smart Pool
+ * deposits and withdrawals. Vaults on other DEXes (Algebra, Blackhole, ...)
+ * are refused rather than swapped on a different venue.
+ */
+
+import { Address, encodeFunctionData, erc20Abi, isAddressEqual, parseEventLogs } from 'viem';
+import { ApprovalManager, type ApprovalPolicy } from './approval-manager';
+import { quoterV2Abi, swapRouterAbi, uniswapV3PoolAbi } from './steer-abis';
+import { getChainContracts, type ChainContracts } from './steer-config';
+import { ValidationError } from './steer-types';
+
+// Fee denominator used by Uniswap V3 fee tiers (hundredths of a bip)
+const FEE_DENOMINATOR = 1_000_000n;
+const Q192 = 2n ** 192n;
+
+// Current price and fee tier of a pool
+interface PoolState {
+  address: Address;
+  sqrtPriceX96: bigint;
+  tick: number;
+  fee: number;
+}
+
+interface SwapParams {
+  tokenIn: Address;
+  tokenOut: Address;
+  fee: number;
+  amountIn: bigint;
+  amountOutMinimum: bigint;
+  recipient: Address;
+  // Allowance to grant the router when approval is needed (default 'revoke-after-use')
+  approvalPolicy?: ApprovalPolicy;
+}
+
+interface SwapResult {
+  transactionHash: string;
+  amountOut: bigint;
+}
+
+/**
+ * Pool Swapper
+ *
+ * Routes swaps through the chain's Uniswap V3 SwapRouter02 using the fee tier
+ * of the vault's pool, so the trade executes against the same liquidity the
+ * vault is deployed in.
+ */
+export class PoolSwapper {
+  private publicClient: any;
+  private walletClient: any;
+  private approvalManager: ApprovalManager;
+  private contractOverrides: Partial<ChainContracts>;
+
+  constructor(publicClient: any, walletClient: any, contractOverrides: Partial<ChainContracts> = {}) {
+    this.publicClient = publicClient;
+    this.walletClient = walletClient;
+    this.approvalManager = new ApprovalManager(publicClient, walletClient);
+    this.contractOverrides = contractOverrides;
+  }
+
+  /**
+   * Check whether a pool was deployed by the chain's Uniswap V3 factory
+   *
+   * Pools that do not answer `factory()` are treated as other protocols.
+   */
+  async isUniswapV3Pool(poolAddress: Address): Promise<boolean> {
+    const { uniswapV3Factory } = await this.getContracts();
+    try {
+      const factory: Address = await this.publicClient.readContract({
+        address: poolAddress,
+        abi: uniswapV3PoolAbi,
+        functionName: 'factory'
+      });
+      return isAddressEqual(factory, uniswapV3Factory);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Read the current price and fee tier of a pool
+   *
+   * The quoter and router only trade on pools from the chain's Uniswap V3
+   * factory, so any other pool is refused before anything is quoted or sent.
+   *
+   * @throws ValidationError when the pool was not deployed by that factory
+   */
+  async getPoolState(poolAddress: Address): Promise<PoolState> {
+    const { uniswapV3Factory } = await this.getContracts();
+    const [factory, slot0, fee] = await this.publicClient.multicall({
+      contracts: [
+        { address: poolAddress, abi: uniswapV3PoolAbi, functionName: 'factory' },
+        { address: poolAddress, abi: uniswapV3PoolAbi, functionName: 'slot0' },
+        { address: poolAddress, abi: uniswapV3PoolAbi, functionName: 'fee' }
+      ],
+      allowFailure: true
+    });
+
+    if (factory.status !== 'success' || !isAddressEqual(factory.result, uniswapV3Factory)) {
+      throw new ValidationError(
+        `Pool ${poolAddress} is not a Uniswap V3 pool; single-token zaps only swap through Uniswap V3`,
+        'pool'
+      );
+    }
+    if (slot0.status !== 'success' || fee.status !== 'success') {
+      throw new Error(`Failed to read the state of pool ${poolAddress}`);
+    }
+
+    return {
+      address: poolAddress,
+      sqrtPriceX96: slot0.result[0],
+      tick: Number(slot0.result[1]),
+      fee: Number(fee.result)
+    };
+  }
+
+  /**
+   * Quote the output of an exact-input swap
+   */
+  async quoteExactInput(tokenIn: Address, tokenOut: Address, fee: number, amountIn: bigint): Promise<bigint> {
+    if (amountIn === 0n) {
+      return 0n;
+    }
+
+    const { quoter } = await this.getContracts();
+    const { result } = await this.publicClient.simulateContract({
+      address: quoter,
+      abi: quoterV2Abi,
+      functionName: 'quoteExactInputSingle',
+      args: [{ tokenIn, tokenOut, amountIn, fee, sqrtPriceLimitX96: 0n }]
+    });
+
+    return result[0];
+  }
+
+  /**
+   * Execute an exact-input swap and return the amount received by the recipient
+   *
+   * The router is authorized through the approval manager. Tokens with
+   * EIP-2612 support are authorized with a signed permit that the router
+   * redeems through `selfPermit` in the same multicall as the swap, so no
+   * approval transaction is sent; other tokens are approved. Under the
+   * default 'revoke-after-use' policy the router's allowance is set back to
+   * what it was before the swap, however the swap ends.
+   */
+  async swapExactInput(params: SwapParams, account: Address): Promise<SwapResult> {
+    const { swapRouter } = await this.getContracts();
+
+    const approval = await this.approvalManager.authorize(params.tokenIn, account, swapRouter, params.amountIn, {
+      policy: params.approvalPolicy ?? 'revoke-after-use',
+      spenderAcceptsPermit: true
+    });
+
+    try {
+      const swapArgs = [{
+        tokenIn: params.tokenIn,
+        tokenOut: params.tokenOut,
+        fee: params.fee,
+        recipient: params.recipient,
+        amountIn: params.amountIn,
+        amountOutMinimum: params.amountOutMinimum,
+        sqrtPriceLimitX96: 0n
+      }] as const;
+
+      const { permit } = approval;
+      const hash = permit
+        ? await this.walletClient.writeContract({
+            account,
+            address: swapRouter,
+            abi: swapRouterAbi,
+            functionName: 'multicall',
+            args: [[
+              encodeFunctionData({
+                abi: swapRouterAbi,
+                functionName: 'selfPermit',
+                args: [permit.token, permit.value, permit.deadline, permit.v, permit.r, permit.s]
+              }),
+              encodeFunctionData({ abi: swapRouterAbi, functionName: 'exactInputSingle', args: swapArgs })
+            ]]
+          })
+        : await this.walletClient.writeContract({
+            account,
+            address: swapRouter,
+            abi: swapRouterAbi,
+            functionName: 'exactInputSingle',
+            args: swapArgs
+          });
+
+      const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== 'success') {
+        throw new Error(`Swap transaction reverted: ${hash}`);
+      }
+
+      const amountOut = parseEventLogs({ abi: erc20Abi, eventName: 'Transfer', logs: receipt.logs })
+        .filter(log => isAddressEqual(log.address, params.tokenOut) && isAddressEqual(log.args.to, params.recipient))
+        .reduce((sum, log) => sum + log.args.value, 0n);
+
+      return { transactionHash: hash, amountOut };
+    } finally {
+      try {
+        await this.approvalManager.revokeUnused([[params.tokenIn, approval]], account, swapRouter);
+      } catch (error) {
+        console.warn('⚠️  Failed to revoke swap router allowance:', error);
+      }
+    }
+  }
+
+  /**
+   * Calculate how much of a single input token to swap so the remainder and
+   * the swap output match the vault's deposit ratio
+   *
+   * `pairedAmount` is the amount of the other token the vault pairs with the
+   * full `amountIn`. Solving `swapOut / (amountIn - x) = pairedAmount / amountIn`
+   * with `swapOut = x * price * (1 - fee)` gives
+   * `x = pairedAmount * amountIn / (price * (1 - fee) * amountIn + pairedAmount)`.
+   */
+  static calculateZapSwapAmount(
+    amountIn: bigint,
+    pairedAmount: bigint,
+    sqrtPriceX96: bigint,
+    fee: number,
+    zeroForOne: boolean
+  ): bigint {
+    if (amountIn === 0n || pairedAmount === 0n) {
+      return 0n;
+    }
+
+    const priceSquared = sqrtPriceX96 * sqrtPriceX96;
+    const feeComplement = FEE_DENOMINATOR - BigInt(fee);
+
+    // Price of the input token in units of the output token is priceSquared / Q192
+    // for token0 -> token1 and Q192 / priceSquared for token1 -> token0
+    const [priceNumerator, priceDenominator] = zeroForOne ? [priceSquared, Q192] : [Q192, priceSquared];
+
+    const numerator = pairedAmount * amountIn * priceDenominator * FEE_DENOMINATOR;
+    const denominator = amountIn * priceNumerator * feeComplement + pairedAmount * priceDenominator * FEE_DENOMINATOR;
+
+    const swapAmount = numerator / denominator;
+    return swapAmount > amountIn ? amountIn : swapAmount;
+  }
+
+  private async getContracts(): Promise<ChainContracts> {
+    const chainId = this.publicClient.chain?.id ?? await this.publicClient.getChainId();
+    return { ...getChainContracts(chainId), ...this.contractOverrides };
+  }
+}
+
+// Export types
+export type { PoolState, SwapParams, SwapResult };
@@ -0,0 +1,36 @@
+/**
+ * Prepared Transaction Helpers
+ *
+ * Normalizes the transactions produced by the SDK's prepare methods and by the
+ * local `prepare*Tx` helpers into a plain contract call.
+ */
+
+import { Address } from 'viem';
+
+// Contract call in the shape returned by the SDK's prepare methods
+interface PreparedContractCall {
+  address: Address;
+  abi: any;
+  functionName: string;
+  args?: readonly unknown[];
+  value?: bigint;
+}
+
+/**
+ * Unwrap an SDK prepare response (`{ success, data }`) or pass a raw contract call through
+ */
+export function toContractCall(preparedTx: any): PreparedContractCall | null {
+  if (!preparedTx) {
+    return null;
+  }
+  if (preparedTx.address && preparedTx.abi && preparedTx.functionName) {
+    return preparedTx;
+  }
+  if (preparedTx.success && preparedTx.data?.address) {
+    return preparedTx.data;
+  }
+  return null;
+}
+
+// Export types
+export type { PreparedContractCall };
@@ -0,0 +1,214 @@
+import { createCipheriv, randomBytes } from 'crypto';
+import { scrypt } from '@noble/hashes/scrypt';
+import { concat, keccak256 } from 'viem';
+import { avalanche } from 'viem/chains';
+import { SignerFactory, type KeystoreV3 } from './signer-factory';
+import { ValidationError } from './steer-types';
+
+// Test vectors from the Web3 Secret Storage definition
+const SPEC_PASSWORD = 'testpassword';
+const SPEC_PRIVATE_KEY = '0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d';
+const SPEC_PBKDF2: KeystoreV3 = {
+  version: 3,
+  crypto: {
+    cipher: 'aes-128-ctr',
+    cipherparams: { iv: '6087dab2f9fdbbfaddc31a909735c1e6' },
+    ciphertext: '5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46',
+    kdf: 'pbkdf2',
+    kdfparams: { c: 262144, dklen: 32, prf: 'hmac-sha256', salt: 'ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd' },
+    mac: '517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2'
+  }
+};
+const SPEC_SCRYPT: KeystoreV3 = {
+  version: 3,
+  crypto: {
+    cipher: 'aes-128-ctr',
+    cipherparams: { iv: '83dbcc02d8ccb40e466191a123791e0e' },
+    ciphertext: 'd172bf743a674da9cdad04534d56926ef8358534d458fffccd4e6ad2fbde479c',
+    kdf: 'scrypt',
+    kdfparams: { dklen: 32, n: 262144, r: 1, p: 8, salt: 'ab0c7876052600dd703518d6fc3fe8984592145b591fc8fb5c6d43190334ba19' },
+    mac: '2103ac29920d71da29f15d75b4a16dbe95cfd7ff8faea1056c33131d846e3097'
+  }
+};
+
+// Hardhat's default development mnemonic and its first two accounts
+const TEST_MNEMONIC = 'test test test test test test test test test test test junk';
+const TEST_PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const TEST_ADDRESS_0 = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const TEST_ADDRESS_1 = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+// Encrypt a key with cheap scrypt parameters so keystore cases run quickly
+function encryptKeystore(privateKey: string, password: string): KeystoreV3 {
+  const salt = randomBytes(32);
+  const iv = randomBytes(16);
+  const derivedKey = Buffer.from(scrypt(password, salt, { N: 1024, r: 8, p: 1, dkLen: 32 }));
+  const cipher = createCipheriv('aes-128-ctr', derivedKey.subarray(0, 16), iv);
+  const ciphertext = Buffer.concat([cipher.update(Buffer.from(privateKey.slice(2), 'hex')), cipher.final()]);
+  return {
+    version: 3,
+    crypto: {
+      cipher: 'aes-128-ctr',
+      cipherparams: { iv: iv.toString('hex') },
+      ciphertext: ciphertext.toString('hex'),
+      kdf: 'scrypt',
+      kdfparams: { dklen: 32, n: 1024, r: 8, p: 1, salt: salt.toString('hex') },
+      mac: keccak256(concat([derivedKey.subarray(16, 32), ciphertext])).slice(2)
+    }
+  };
+}
+
+function expectValidationError(load: () => unknown, field: string): void {
+  let thrown: unknown;
+  try {
+    load();
+  } catch (error) {
+    thrown = error;
+  }
+  expect(thrown).toBeInstanceOf(ValidationError);
+  expect((thrown as ValidationError).field).toBe(field);
+}
+
+describe('SignerFactory', () => {
+  let logs: string[];
+
+  beforeEach(() => {
+    logs = [];
+    for (const method of ['log', 'warn', 'error'] as const) {
+      jest.spyOn(console, method).mockImplementation((...args: unknown[]) => {
+        logs.push(args.map(String).join(' '));
+      });
+    }
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('decryptKeystore', () => {
+    it('decrypts the pbkdf2 spec vector', () => {
+      expect(SignerFactory.decryptKeystore(SPEC_PBKDF2, SPEC_PASSWORD)).toBe(SPEC_PRIVATE_KEY);
+    });
+
+    it('decrypts the scrypt spec vector (n = 262144, r = 1, p = 8)', () => {
+      expect(SignerFactory.decryptKeystore(JSON.stringify(SPEC_SCRYPT), SPEC_PASSWORD)).toBe(SPEC_PRIVATE_KEY);
+    }, 60_000);
+
+    it('rejects a wrong password', () => {
+      const keystore = encryptKeystore(TEST_PRIVATE_KEY, 'correct horse');
+
+      expectValidationError(() => SignerFactory.decryptKeystore(keystore, 'battery staple'), 'password');
+    });
+
+    it('defaults a missing scrypt p to 1', () => {
+      const keystore = encryptKeystore(TEST_PRIVATE_KEY, 'correct horse');
+      delete keystore.crypto.kdfparams.p;
+
+      expect(SignerFactory.decryptKeystore(keystore, 'correct horse')).toBe(TEST_PRIVATE_KEY);
+    });
+
+    it('wraps KDF parameter errors in a ValidationError', () => {
+      const keystore = encryptKeystore(TEST_PRIVATE_KEY, 'correct horse');
+      keystore.crypto.kdfparams.n = 1000;
+
+      expectValidationError(() => SignerFactory.decryptKeystore(keystore, 'correct horse'), 'keystore');
+    });
+
+    it.each([
+      ['cipherparams', (keystore: any) => delete keystore.crypto.cipherparams],
+      ['kdfparams', (keystore: any) => delete keystore.crypto.kdfparams],
+      ['the kdf salt', (keystore: any) => delete keystore.crypto.kdfparams.salt],
+      ['the mac', (keystore: any) => delete keystore.crypto.mac]
+    ])('rejects a keystore without %s', (_, strip) => {
+      const keystore = encryptKeystore(TEST_PRIVATE_KEY, 'correct horse');
+      strip(keystore);
+
+      expectValidationError(() => SignerFactory.decryptKeystore(keystore, 'correct horse'), 'keystore');
+    });
+
+    it('refuses scrypt parameters that need more than 1 GiB', () => {
+      const keystore = encryptKeystore(TEST_PRIVATE_KEY, 'correct horse');
+      keystore.crypto.kdfparams.n = 2 ** 20;
+
+      expectValidationError(() => SignerFactory.decryptKeystore(keystore, 'correct horse'), 'keystore');
+    });
+  });
+
+  describe('toAccount', () => {
+    it('loads private keys with or without the 0x prefix', () => {
+      expect(SignerFactory.toAccount({ type: 'privateKey', privateKey: TEST_PRIVATE_KEY }).address).toBe(TEST_ADDRESS_0);
+      expect(SignerFactory.toAccount({ type: 'privateKey', privateKey: TEST_PRIVATE_KEY.slice(2) }).address).toBe(TEST_ADDRESS_0);
+    });
+
+    it('derives mnemonic accounts by index or path', () => {
+      expect(SignerFactory.toAccount({ type: 'mnemonic', mnemonic: TEST_MNEMONIC }).address).toBe(TEST_ADDRESS_0);
+      expect(SignerFactory.toAccount({ type: 'mnemonic', mnemonic: TEST_MNEMONIC, addressIndex: 1 }).address).toBe(TEST_ADDRESS_1);
+      expect(SignerFactory.toAccount({ type: 'mnemonic', mnemonic: TEST_MNEMONIC, path: "m/44'/60'/0'/0/1" }).address)
+        .toBe(TEST_ADDRESS_1);
+    });
+
+    it('loads keystores', () => {
+      const keystore = encryptKeystore(TEST_PRIVATE_KEY, 'correct horse');
+
+      expect(SignerFactory.toAccount({ type: 'keystore', keystore, password: 'correct horse' }).address).toBe(TEST_ADDRESS_0);
+    });
+  });
+
+  describe('secrets', () => {
+    const failures: [string, () => unknown, string][] = [
+      ['a malformed private key', () => SignerFactory.toAccount({ type: 'privateKey', privateKey: `${TEST_PRIVATE_KEY}ff` }), `${TEST_PRIVATE_KEY.slice(2)}ff`],
+      ['a private key outside the curve order', () => SignerFactory.toAccount({ type: 'privateKey', privateKey: `0x${'f'.repeat(64)}` }), 'f'.repeat(64)],
+      ['an invalid derivation path', () => SignerFactory.toAccount({ type: 'mnemonic', mnemonic: TEST_MNEMONIC, path: "m/44'/60'/x" }), 'test test'],
+      ['a wrong keystore password', () => SignerFactory.toAccount({
+        type: 'keystore',
+        keystore: encryptKeystore(TEST_PRIVATE_KEY, 'correct horse'),
+        password: 'battery staple'
+      }), 'battery staple']
+    ];
+
+    it.each(failures)('are kept out of the error for %s', (_, load, secret) => {
+      let thrown: unknown;
+      try {
+        load();
+      } catch (error) {
+        thrown = error;
+      }
+
+      expect(thrown).toBeInstanceOf(ValidationError);
+      expect((thrown as Error).message).not.toContain(secret);
+      expect(JSON.stringify(thrown)).not.toContain(secret);
+      logs.forEach(line => expect(line).not.toContain(secret));
+    });
+
+    it('are kept out of the logs when a signer loads', () => {
+      const keystore = encryptKeystore(TEST_PRIVATE_KEY, 'correct horse');
+      SignerFactory.toAccount({ type: 'privateKey', privateKey: TEST_PRIVATE_KEY });
+      SignerFactory.toAccount({ type: 'mnemonic', mnemonic: TEST_MNEMONIC });
+      SignerFactory.toAccount({ type: 'keystore', keystore, password: 'correct horse' });
+
+      expect(logs).toHaveLength(3);
+      for (const secret of [TEST_PRIVATE_KEY.slice(2), 'test test', 'correct horse', keystore.crypto.ciphertext]) {
+        logs.forEach(line => expect(line).not.toContain(secret));
+      }
+    });
+  });
+
+  describe('walletClientFromEnv', () => {
+    it('signs with the configured private key', () => {
+      const client = SignerFactory.walletClientFromEnv(avalanche, undefined, { STEER_PRIVATE_KEY: TEST_PRIVATE_KEY });
+
+      expect(client.account?.address).toBe(TEST_ADDRESS_0);
+      expect(client.chain?.id).toBe(avalanche.id);
+    });
+
+    it('is read-only without a signer', () => {
+      expect(SignerFactory.walletClientFromEnv(avalanche, undefined, {}).account).toBeUndefined();
+    });
+
+    it('requires a password with a keystore path', () => {
+      expectValidationError(
+        () => SignerFactory.walletClientFromEnv(avalanche, undefined, { STEER_KEYSTORE_PATH: '/tmp/keystore.json' }),
+        'password'
+      );
+    });
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Signer Factory
+ *
+ * Builds wallet clients that can actually sign, from a raw private key, a
+ * BIP-39 mnemonic with derivation path, or an encrypted JSON keystore (V3).
+ * Secrets never appear in logs or error messages; only the source type and
+ * the derived address are ever printed.
+ */
+
+import { createDecipheriv, pbkdf2Sync } from 'crypto';
+import { readFileSync } from 'fs';
+import { scrypt } from '@noble/hashes/scrypt';
+import { Chain, concat, createWalletClient, Hex, http, keccak256, Transport, WalletClient } from 'viem';
+import { mnemonicToAccount, privateKeyToAccount, type LocalAccount } from 'viem/accounts';
+import { ValidationError } from './steer-types';
+
+type SignerSource =
+  | { type: 'privateKey'; privateKey: string }
+  | {
+      type: 'mnemonic';
+      mnemonic: string;
+      // Full derivation path; overrides the account and address indexes
+      path?: `m/44'/60'/${string}`;
+      accountIndex?: number;
+      addressIndex?: number;
+    }
+  | {
+      type: 'keystore';
+      // Keystore JSON, either as a string or already parsed
+      keystore: string | KeystoreV3;
+      password: string;
+    };
+
+// Largest scrypt working set a keystore may ask for (1 GiB)
+const MAX_SCRYPT_MEMORY = 1024 ** 3;
+
+// Web3 Secret Storage (V3) keystore
+interface KeystoreV3 {
+  version: number;
+  address?: string;
+  crypto: {
+    cipher: string;
+    ciphertext: string;
+    cipherparams: { iv: string };
+    kdf: 'scrypt' | 'pbkdf2';
+    kdfparams: {
+      dklen: number;
+      salt: string;
+      // scrypt
+      n?: number;
+      r?: number;
+      p?: number;
+      // pbkdf2
+      c?: number;
+      prf?: string;
+    };
+    mac: string;
+  };
+}
+
+/**
+ * Signer Factory
+ */
+export class SignerFactory {
+  /**
+   * Build a local account from a signer source
+   */
+  static toAccount(source: SignerSource): LocalAccount {
+    let account: LocalAccount;
+    switch (source.type) {
+      case 'privateKey':
+        account = SignerFactory.fromPrivateKey(source.privateKey);
+        break;
+      case 'mnemonic':
+        try {
+          account = mnemonicToAccount(
+            source.mnemonic.trim(),
+            source.path
+              ? { path: source.path }
+              : { accountIndex: source.accountIndex, addressIndex: source.addressIndex }
+          );
+        } catch {
+          // The underlying error can echo the phrase, so it is not passed on
+          throw new ValidationError('Invalid mnemonic or derivation path', 'mnemonic');
+        }
+        break;
+      case 'keystore':
+        account = SignerFactory.fromPrivateKey(SignerFactory.decryptKeystore(source.keystore, source.password));
+        break;
+    }
+
+    console.log(`🔑 Loaded ${source.type} signer ${account.address}`);
+    return account;
+  }
+
+  /**
+   * Build a wallet client that signs with the given source
+   */
+  static createWalletClient(source: SignerSource, chain: Chain, transport: Transport = http()): WalletClient {
+    return createWalletClient({
+      account: SignerFactory.toAccount(source),
+      chain,
+      transport
+    });
+  }
+
+  /**
+   * Build a wallet client for the signer configured in the environment
+   *
+   * Falls back to an account-less, read-only client when no signer is set.
+   */
+  static walletClientFromEnv(chain: Chain, transport: Transport = http(), env: NodeJS.ProcessEnv = process.env): WalletClient {
+    const source = SignerFactory.fromEnv(env);
+    return source
+      ? SignerFactory.createWalletClient(source, chain, transport)
+      : createWalletClient({ chain, transport });
+  }
+
+  /**
+   * Read a signer source from environment variables
+   *
+   * Checked in order: `STEER_PRIVATE_KEY`; `STEER_MNEMONIC` with optional
+   * `STEER_DERIVATION_PATH`; `STEER_KEYSTORE_PATH` with `STEER_KEYSTORE_PASSWORD`.
+   * Returns null when none is set.
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): SignerSource | null {
+    if (env.STEER_PRIVATE_KEY) {
+      return { type: 'privateKey', privateKey: env.STEER_PRIVATE_KEY };
+    }
+    if (env.STEER_MNEMONIC) {
+      return {
+        type: 'mnemonic',
+        mnemonic: env.STEER_MNEMONIC,
+        path: env.STEER_DERIVATION_PATH as `m/44'/60'/${string}` | undefined
+      };
+    }
+    if (env.STEER_KEYSTORE_PATH) {
+      if (env.STEER_KEYSTORE_PASSWORD === undefined) {
+        throw new ValidationError('STEER_KEYSTORE_PASSWORD is required with STEER_KEYSTORE_PATH', 'password');
+      }
+      return {
+        type: 'keystore',
+        keystore: readFileSync(env.STEER_KEYSTORE_PATH, 'utf8'),
+        password: env.STEER_KEYSTORE_PASSWORD
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Decrypt a V3 keystore into its private key
+   *
+   * Supports scrypt and pbkdf2 (hmac-sha256) key derivation with aes-128-ctr,
+   * and verifies the keccak256 MAC before decrypting.
+   */
+  static decryptKeystore(keystore: string | KeystoreV3, password: string): Hex {
+    let parsed: KeystoreV3;
+    try {
+      parsed = typeof keystore === 'string' ? JSON.parse(keystore) : keystore;
+    } catch {
+      throw new ValidationError('Keystore is not valid JSON', 'keystore');
+    }
+
+    const { crypto } = parsed;
+    if (parsed.version !== 3 || !crypto) {
+      throw new ValidationError('Only version 3 keystores are supported', 'keystore');
+    }
+    if (crypto.cipher !== 'aes-128-ctr') {
+      throw new ValidationError(`Unsupported keystore cipher: ${crypto.cipher}`, 'keystore');
+    }
+    SignerFactory.assertKeystoreShape(crypto);
+
+    const derivedKey = SignerFactory.deriveKeystoreKey(crypto, password);
+    const ciphertext = Buffer.from(crypto.ciphertext, 'hex');
+    const mac = keccak256(concat([derivedKey.subarray(16, 32), ciphertext]));
+    if (mac.slice(2).toLowerCase() !== crypto.mac.toLowerCase()) {
+      throw new ValidationError('Incorrect keystore password', 'password');
+    }
+
+    const decipher = createDecipheriv('aes-128-ctr', derivedKey.subarray(0, 16), Buffer.from(crypto.cipherparams.iv, 'hex'));
+    const privateKey = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+    return `0x${privateKey.toString('hex')}`;
+  }
+
+  /**
+   * Check that the keystore holds every field decryption reads
+   */
+  private static assertKeystoreShape(crypto: KeystoreV3['crypto']): void {
+    const fields: [string, unknown][] = [
+      ['crypto.ciphertext', crypto.ciphertext],
+      ['crypto.mac', crypto.mac],
+      ['crypto.cipherparams.iv', crypto.cipherparams?.iv],
+      ['crypto.kdfparams.salt', crypto.kdfparams?.salt]
+    ];
+    for (const [name, value] of fields) {
+      if (typeof value !== 'string') {
+        throw new ValidationError(`Keystore is missing ${name}`, 'keystore');
+      }
+    }
+    if (typeof crypto.kdfparams.dklen !== 'number') {
+      throw new ValidationError('Keystore is missing crypto.kdfparams.dklen', 'keystore');
+    }
+  }
+
+  /**
+   * Derive the keystore encryption key from the password
+   *
+   * scrypt runs in JavaScript because OpenSSL rejects parameters such as the
+   * spec's n = 262144 with r = 1.
+   */
+  private static deriveKeystoreKey(crypto: KeystoreV3['crypto'], password: string): Buffer {
+    const params = crypto.kdfparams;
+    if (crypto.kdf !== 'scrypt' && crypto.kdf !== 'pbkdf2') {
+      throw new ValidationError(`Unsupported keystore kdf: ${crypto.kdf}`, 'keystore');
+    }
+    if (crypto.kdf === 'pbkdf2' && params.prf !== 'hmac-sha256') {
+      throw new ValidationError(`Unsupported keystore prf: ${params.prf}`, 'keystore');
+    }
+
+    try {
+      const salt = Buffer.from(params.salt, 'hex');
+      if (crypto.kdf === 'pbkdf2') {
+        return pbkdf2Sync(password, salt, params.c ?? 0, params.dklen, 'sha256');
+      }
+
+      const n = params.n ?? 0;
+      const r = params.r ?? 0;
+      const p = params.p ?? 1;
+      const memory = 128 * r * (n + p);
+      if (memory > MAX_SCRYPT_MEMORY) {
+        throw new ValidationError('Keystore scrypt parameters need more than 1 GiB of memory', 'keystore');
+      }
+      return Buffer.from(scrypt(password, salt, { N: n, r, p, dkLen: params.dklen, maxmem: memory }));
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      // KDF errors only describe the parameters, never the password
+      throw new ValidationError(
+        `Keystore key derivation failed: ${error instanceof Error ? error.message : 'unknown error'}`,
+        'keystore'
+      );
+    }
+  }
+
+  private static fromPrivateKey(privateKey: string): LocalAccount {
+    const normalized = (privateKey.trim().startsWith('0x') ? privateKey.trim() : `0x${privateKey.trim()}`) as Hex;
+    if (!/^0x[0-9a-fA-F]{64}$/.test(normalized)) {
+      throw new ValidationError('Private key must be 32 bytes of hex', 'privateKey');
+    }
+    try {
+      return privateKeyToAccount(normalized);
+    } catch {
+      // The underlying error can echo the key, so it is not passed on
+      throw new ValidationError('Invalid private key', 'privateKey');
+    }
+  }
+}
+
+// Export types
+export type { SignerSource, KeystoreV3 };
@@ -6,28 +6,26 @@
  */
 
 import { SmartPoolDepositExamples } from './smart-pool-deposit';
+import { SignerFactory } from '../signer-factory';
 import {avalanche} from 'viem/chains';
 
 // Main functionality
 export { SmartPoolDepositManager, SmartPoolDepositExamples, DepositUtils } from './smart-pool-deposit';
-export type { DepositParams, DepositResult, TokenInfo, VaultInfo } from './smart-pool-deposit';
+export type { DepositParams, DepositResult, RatioDriftCheck, BatchDepositResult, ZapDepositResult, DepositPreview, ApprovalMethod, TokenInfo, VaultInfo } from './smart-pool-deposit';
 
 // Test functionality
 
 // Convenience functions
 export async function runDepositExamples(): Promise<void> {
   console.log('🚀 Running Smart Pool Deposit Examples...');
-  const { createPublicClient, createWalletClient, http } = await import('viem');
+  const { createPublicClient, http } = await import('viem');
   
   const publicClient = createPublicClient({
     chain: avalanche,
     transport: http()
   });
 
-  const walletClient = createWalletClient({
-    chain: avalanche,
-    transport: http()
-  });
+  const walletClient = SignerFactory.walletClientFromEnv(avalanche);
 
   const examples = new SmartPoolDepositExamples(publicClient, walletClient);
   await examples.depositExample();
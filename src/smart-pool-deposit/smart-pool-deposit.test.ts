@@ -0,0 +1,295 @@
+import { Address } from 'viem';
+import { DepositUtils, SmartPoolDepositManager } from './smart-pool-deposit';
+
+const Q96 = 2n ** 96n;
+
+describe('DepositUtils.calculateExpectedShares', () => {
+  it('mints the larger amount into an empty vault', () => {
+    expect(DepositUtils.calculateExpectedShares(10n, 30n, { totalSupply: 0n, total0: 0n, total1: 0n })).toEqual({
+      shares: 30n,
+      amount0: 10n,
+      amount1: 30n
+    });
+  });
+
+  it('caps the deposit by the scarcer side', () => {
+    const totals = { totalSupply: 1000n, total0: 100n, total1: 200n };
+
+    expect(DepositUtils.calculateExpectedShares(10n, 30n, totals)).toEqual({ shares: 100n, amount0: 10n, amount1: 20n });
+    expect(DepositUtils.calculateExpectedShares(30n, 20n, totals)).toEqual({ shares: 100n, amount0: 10n, amount1: 20n });
+  });
+
+  it('rounds pulled amounts up and shares down like the vault contract', () => {
+    const totals = { totalSupply: 1000n, total0: 3n, total1: 7n };
+
+    // 49 / 3 = 16.33 is pulled as 17; 49000 / 21 = 2333.3 mints 2333
+    expect(DepositUtils.calculateExpectedShares(7n, 100n, totals)).toEqual({ shares: 2333n, amount0: 7n, amount1: 17n });
+  });
+
+  it('handles vaults holding a single token', () => {
+    expect(DepositUtils.calculateExpectedShares(5n, 50n, { totalSupply: 100n, total0: 0n, total1: 200n }))
+      .toEqual({ shares: 25n, amount0: 0n, amount1: 50n });
+    expect(DepositUtils.calculateExpectedShares(50n, 5n, { totalSupply: 100n, total0: 200n, total1: 0n }))
+      .toEqual({ shares: 25n, amount0: 50n, amount1: 0n });
+  });
+
+  it('mints nothing when one side is missing from a two-sided vault', () => {
+    expect(DepositUtils.calculateExpectedShares(0n, 50n, { totalSupply: 100n, total0: 10n, total1: 10n }))
+      .toEqual({ shares: 0n, amount0: 0n, amount1: 0n });
+  });
+
+  it('stays exact for 18-decimal vaults', () => {
+    const totals = { totalSupply: 10n ** 24n, total0: 5n * 10n ** 23n, total1: 2n * 10n ** 27n };
+
+    expect(DepositUtils.calculateExpectedShares(10n ** 18n, 4n * 10n ** 21n, totals)).toEqual({
+      shares: 2n * 10n ** 18n,
+      amount0: 10n ** 18n,
+      amount1: 4n * 10n ** 21n
+    });
+  });
+});
+
+describe('DepositUtils.calculateUnusedValueRatio', () => {
+  it('values both tokens at the spot price', () => {
+    // Price 4: the 50 unused token1 are worth 12.5 token0 of 100 + 100 / 4 = 125 token0
+    expect(DepositUtils.calculateUnusedValueRatio(100n, 100n, 0n, 50n, 2n * Q96)).toBe(0.1);
+  });
+
+  it('is zero for an empty or fully used input', () => {
+    expect(DepositUtils.calculateUnusedValueRatio(0n, 0n, 0n, 0n, Q96)).toBe(0);
+    expect(DepositUtils.calculateUnusedValueRatio(10n, 10n, 0n, 0n, Q96)).toBe(0);
+  });
+});
+
+describe('SmartPoolDepositManager guards', () => {
+  const vault: Address = '0x1111111111111111111111111111111111111111';
+  const token: Address = '0x2222222222222222222222222222222222222222';
+  const user: Address = '0x4444444444444444444444444444444444444444';
+
+  function createClients() {
+    const publicClient = {
+      chain: { id: 43114 },
+      getCode: jest.fn(async () => '0x60'),
+      readContract: jest.fn(),
+      multicall: jest.fn()
+    };
+    // Connected to Polygon while the deposit targets Avalanche
+    const walletClient = {
+      chain: { id: 137 },
+      account: { address: user },
+      writeContract: jest.fn(),
+      sendTransaction: jest.fn()
+    };
+    return { publicClient, walletClient };
+  }
+
+  beforeEach(() => {
+    for (const method of ['log', 'warn', 'error'] as const) {
+      jest.spyOn(console, method).mockImplementation(() => undefined);
+    }
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('refuses a deposit on the wrong chain before wrapping or approving', async () => {
+    const { publicClient, walletClient } = createClients();
+    const manager = new SmartPoolDepositManager(publicClient, walletClient);
+
+    const result = await manager.deposit({ vaultAddress: vault, amount0Desired: 1n, amount1Desired: 1n, slippage: 0.005, useNative: true });
+
+    expect(result).toEqual({ success: false, error: 'Wallet is connected to chain 137, expected chain 43114' });
+    expect(publicClient.readContract).not.toHaveBeenCalled();
+    expect(walletClient.writeContract).not.toHaveBeenCalled();
+    expect(walletClient.sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('refuses a zap on the wrong chain before swapping', async () => {
+    const { publicClient, walletClient } = createClients();
+    const manager = new SmartPoolDepositManager(publicClient, walletClient);
+
+    const result = await manager.zapDeposit(vault, token, 1000n, 0.005);
+
+    expect(result).toEqual({ success: false, error: 'Wallet is connected to chain 137, expected chain 43114' });
+    expect(publicClient.readContract).not.toHaveBeenCalled();
+    expect(walletClient.writeContract).not.toHaveBeenCalled();
+  });
+
+  it('prepares a deposit for an explicit recipient on an account-less wallet client', async () => {
+    const publicClient = { chain: { id: 43114 }, getCode: jest.fn(async () => '0x60') };
+    const walletClient = { chain: { id: 43114 }, getAddresses: jest.fn(async () => []) };
+    const manager = new SmartPoolDepositManager(publicClient, walletClient);
+    const prepareDepositTx = jest.fn(async () => ({ success: true, data: {} }));
+    (manager as any).steerClient = { vaults: { prepareDepositTx } };
+
+    await manager.prepareDeposit({ vaultAddress: vault, amount0Desired: 1n, amount1Desired: 1n, slippage: 0.005, recipient: user });
+
+    expect(prepareDepositTx).toHaveBeenCalledWith(expect.objectContaining({ to: user }));
+    expect(walletClient.getAddresses).not.toHaveBeenCalled();
+  });
+});
+
+describe('SmartPoolDepositManager ratio drift', () => {
+  const vault: Address = '0x1111111111111111111111111111111111111111';
+  const user: Address = '0x4444444444444444444444444444444444444444';
+  const token = (address: Address, symbol: string) => ({ address, symbol, decimals: 18 });
+  const vaultInfo = {
+    address: vault,
+    name: 'WAVAX/USDC',
+    decimals: 18,
+    token0: token('0x2222222222222222222222222222222222222222', 'WAVAX'),
+    token1: token('0x3333333333333333333333333333333333333333', 'USDC')
+  };
+  const preparedTx = { success: true, data: { address: vault, abi: [], functionName: 'deposit', args: [] } };
+
+  // Deposit manager whose vault reads return `ratios` in turn: at the start, then right before executing
+  function createManager(ratios: number[]) {
+    const publicClient = {
+      chain: { id: 43114 },
+      getCode: jest.fn(async () => '0x60'),
+      getTransactionCount: jest.fn(async () => 7),
+      waitForTransactionReceipt: jest.fn(async () => ({ status: 'success', logs: [] }))
+    };
+    const walletClient = { chain: { id: 43114 }, account: { address: user } };
+    const manager = new SmartPoolDepositManager(publicClient, walletClient);
+
+    jest.spyOn(manager, 'getVaultInfo').mockResolvedValue(vaultInfo as any);
+    jest.spyOn(manager, 'getTokenBalance').mockResolvedValue(10n ** 24n);
+    jest.spyOn(manager, 'prepareDeposit').mockResolvedValue(preparedTx as any);
+    const getDepositRatio = jest.spyOn(manager, 'getDepositRatio');
+    ratios.forEach(ratio => getDepositRatio.mockResolvedValueOnce(ratio));
+    jest.spyOn(manager, 'getCorrespondingTokenAmount').mockImplementation(async (_, amount, zeroForOne) =>
+      zeroForOne ? amount * 2n : amount / 2n
+    );
+    const executeDeposit = jest.spyOn(manager, 'executeDeposit').mockResolvedValue('0xabc');
+    jest.spyOn((manager as any).approvalManager, 'authorize').mockResolvedValue({ method: 'allowance', revokeAfterUse: false });
+
+    return { manager, getDepositRatio, executeDeposit };
+  }
+
+  const params = { vaultAddress: vault, amount0Desired: 100n, amount1Desired: 500n, slippage: 0.005, skipPreflight: true };
+
+  beforeEach(() => {
+    for (const method of ['log', 'warn', 'error'] as const) {
+      jest.spyOn(console, method).mockImplementation(() => undefined);
+    }
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('lets an unbalanced deposit through by default while the vault ratio holds', async () => {
+    // The vault pairs 100 token0 with 200 token1, but the caller deposits 500 on purpose
+    const { manager, executeDeposit } = createManager([2, 2]);
+
+    const result = await manager.deposit(params);
+
+    expect(result.success).toBe(true);
+    expect(result.ratioCheck).toEqual({ action: 'none', quotedRatio: 2, currentRatio: 2, driftBps: 0, amount0: 100n, amount1: 500n });
+    expect(executeDeposit).toHaveBeenCalledWith(preparedTx.data, user);
+  });
+
+  it('aborts when the vault ratio moved past the threshold since the quote', async () => {
+    const { manager, executeDeposit } = createManager([2, 2.05]);
+
+    const result = await manager.deposit(params);
+
+    expect(result).toMatchObject({ success: false, error: 'Deposit ratio drifted 250 bps since the quote' });
+    expect(result.ratioCheck).toMatchObject({ action: 'aborted', quotedRatio: 2, currentRatio: 2.05, driftBps: 250 });
+    expect(executeDeposit).not.toHaveBeenCalled();
+  });
+
+  it('compares against the ratio the caller planned with', async () => {
+    const { manager, getDepositRatio, executeDeposit } = createManager([2]);
+
+    const result = await manager.deposit({ ...params, quotedRatio: 1.9, maxRatioDriftBps: 600 });
+
+    expect(getDepositRatio).toHaveBeenCalledTimes(1);
+    expect(result.ratioCheck).toMatchObject({ action: 'none', quotedRatio: 1.9, currentRatio: 2, driftBps: 526 });
+    expect(executeDeposit).toHaveBeenCalled();
+  });
+
+  it('shrinks the amounts to the current ratio when adjusting', async () => {
+    const { manager, executeDeposit } = createManager([1.5, 2]);
+
+    const result = await manager.deposit({ ...params, onRatioDrift: 'adjust' });
+
+    expect(result.ratioCheck).toMatchObject({ action: 'adjusted', driftBps: 3333, amount0: 100n, amount1: 200n });
+    expect(manager.prepareDeposit).toHaveBeenLastCalledWith(expect.objectContaining({ amount0Desired: 100n, amount1Desired: 200n }));
+    expect(executeDeposit).toHaveBeenCalled();
+  });
+
+  it('re-quotes each batch deposit right before submitting it', async () => {
+    // Both deposits are quoted at 2, then the second vault moves before it is submitted
+    const { manager, executeDeposit } = createManager([2, 2, 2, 2.05]);
+
+    const { results, succeeded } = await manager.depositBatch([params, params]);
+
+    expect(succeeded).toBe(1);
+    expect(results[0]).toMatchObject({ success: true, ratioCheck: { action: 'none', driftBps: 0 } });
+    expect(results[1]).toMatchObject({
+      success: false,
+      error: 'Deposit ratio drifted 250 bps since the quote',
+      ratioCheck: { action: 'aborted', driftBps: 250 }
+    });
+    expect(executeDeposit).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses a zap into a vault that is not on Uniswap V3 before swapping', async () => {
+    const { manager, executeDeposit } = createManager([]);
+    jest.spyOn(manager, 'getVaultInfo').mockResolvedValue({ ...vaultInfo, pool: '0x5555555555555555555555555555555555555555' } as any);
+    const isUniswapV3Pool = jest.spyOn((manager as any).poolSwapper, 'isUniswapV3Pool').mockResolvedValue(false);
+    const swapExactInput = jest.spyOn((manager as any).poolSwapper, 'swapExactInput');
+
+    const result = await manager.zapDeposit(vault, vaultInfo.token0.address, 100n, 0.005);
+
+    expect(result).toEqual({
+      success: false,
+      unsupportedProtocol: true,
+      error: 'Unsupported protocol: WAVAX/USDC is not on a Uniswap V3 pool, and zap deposits only swap through Uniswap V3'
+    });
+    expect(isUniswapV3Pool).toHaveBeenCalledWith('0x5555555555555555555555555555555555555555');
+    expect(manager.getTokenBalance).not.toHaveBeenCalled();
+    expect(swapExactInput).not.toHaveBeenCalled();
+    expect(executeDeposit).not.toHaveBeenCalled();
+  });
+
+  it('fails a batch deposit that names another account', async () => {
+    const { manager, executeDeposit } = createManager([2, 2]);
+    const other: Address = '0x5555555555555555555555555555555555555555';
+
+    const { results, succeeded } = await manager.depositBatch([{ ...params, account: other }, { ...params, account: user }]);
+
+    expect(succeeded).toBe(1);
+    expect(results[0]).toEqual({ success: false, error: `Batch deposits are signed by ${user}, not ${other}` });
+    expect(executeDeposit).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails every batch deposit when the account cannot be resolved', async () => {
+    const { manager, executeDeposit } = createManager([]);
+    (manager as any).walletClient.account = undefined;
+    (manager as any).walletClient.getAddresses = jest.fn(async () => { throw new Error('wallet locked'); });
+
+    const result = await manager.depositBatch([params, params]);
+
+    expect(result).toEqual({
+      results: [{ success: false, error: 'wallet locked' }, { success: false, error: 'wallet locked' }],
+      succeeded: 0,
+      failed: 2
+    });
+    expect(executeDeposit).not.toHaveBeenCalled();
+  });
+
+  it('fails a batch deposit whose nonce cannot be read', async () => {
+    const { manager, executeDeposit } = createManager([2, 2]);
+    (manager as any).publicClient.getTransactionCount.mockRejectedValueOnce(new Error('RPC timeout'));
+
+    const { results, succeeded } = await manager.depositBatch([params]);
+
+    expect(succeeded).toBe(0);
+    expect(results[0]).toMatchObject({ success: false, error: 'RPC timeout', ratioCheck: { action: 'none' } });
+    expect(executeDeposit).not.toHaveBeenCalled();
+  });
+});
@@ -5,9 +5,22 @@
  * using the SDK with proper error handling, token approvals, and transaction management.
  */
 
-import { createPublicClient, createWalletClient, http, parseUnits, formatUnits, formatEther, Address } from 'viem';
+import { createPublicClient, createWalletClient, http, parseUnits, formatUnits, Address, isAddressEqual } from 'viem';
 import { polygon, arbitrum, avalanche } from 'viem/chains';
 import { ChainId, SteerClient } from '@steerprotocol/sdk';
+import { VaultMetadataResolver, type TokenInfo, type VaultInfo, type VaultTotals } from '../vault-metadata';
+import { VaultReceiptDecoder } from '../vault-receipts';
+import { PoolSwapper } from '../pool-swap';
+import { ApprovalManager, type ApprovalMethod, type ApprovalPolicy, type AuthorizationResult } from '../approval-manager';
+import { NativeCurrencyHelper } from '../native-currency';
+import { GasEstimator, type GasEstimationResult, type GasEstimatorOptions } from '../gas-estimator';
+import { TxSimulator, type SimulationResult } from '../tx-simulator';
+import { NonceManager } from '../nonce-manager';
+import { VaultPreflight, type PreflightResult } from '../vault-preflight';
+import { TxGuard } from '../tx-guards';
+import { AmountMath } from '../amount';
+import { ValidationError } from '../steer-types';
+import { uniswapV3PoolAbi } from '../steer-abis';
 
 // Type definitions for the deposit process
 interface DepositParams {
@@ -15,37 +28,94 @@ interface DepositParams {
   amount0Desired: bigint;
   amount1Desired: bigint;
   slippage: number;
+  // Account that signs and funds the deposit; defaults to the wallet's first account
+  account?: Address;
   recipient?: Address;
   isSteerPeriphery?: boolean;
   chainId?: number;
+  // Allowance to grant when approval is needed (default 'exact')
+  approvalPolicy?: ApprovalPolicy;
+  // Wrap native currency to cover the vault's wrapped-native side
+  useNative?: boolean;
+  // Skip the vault state pre-flight check (default false)
+  skipPreflight?: boolean;
+  // Deposit ratio the amounts were planned with, from `getDepositRatio(vault, true)`;
+  // defaults to the ratio read when the deposit starts
+  quotedRatio?: number;
+  // Largest allowed change in the deposit ratio between the quote and execution (default 100 bps)
+  maxRatioDriftBps?: number;
+  // What to do when the drift exceeds the threshold (default 'abort')
+  onRatioDrift?: 'abort' | 'adjust';
 }
 
-interface TokenInfo {
-  address: string;
-  symbol: string;
-  decimals: number;
-}
-
-interface VaultInfo {
-  address: string;
-  token0: TokenInfo;
-  token1: TokenInfo;
-  name: string;
-  protocol: string;
+// Outcome of the ratio re-quote made right before the deposit is executed
+interface RatioDriftCheck {
+  action: 'none' | 'adjusted' | 'aborted' | 'skipped';
+  // Deposit ratio when the deposit started and right before execution
+  quotedRatio: number | null;
+  currentRatio: number | null;
+  // Change in the deposit ratio since the quote
+  driftBps?: number;
+  // Amounts actually submitted
+  amount0: bigint;
+  amount1: bigint;
 }
 
 interface DepositResult {
   success: boolean;
   transactionHash?: string;
+  approvals?: { token0: ApprovalMethod; token1: ApprovalMethod };
+  spender?: string;
+  revokeTransactionHashes?: string[];
+  wrapTransactionHash?: string;
   sharesReceived?: bigint;
+  amount0Deposited?: bigint;
+  amount1Deposited?: bigint;
+  preflight?: PreflightResult;
+  ratioCheck?: RatioDriftCheck;
   error?: string;
 }
 
-interface GasEstimationResult {
-  gasEstimate: bigint | null;
-  willRevert: boolean;
-  error?: string;
-  gasCostInEth?: string;
+interface BatchDepositResult {
+  // Per-item results, in input order
+  results: DepositResult[];
+  succeeded: number;
+  failed: number;
+}
+
+interface ZapDepositResult extends DepositResult {
+  // Set when the vault's pool is not a Uniswap V3 pool; nothing was swapped or deposited
+  unsupportedProtocol?: boolean;
+  swapTransactionHash?: string;
+  amountSwapped?: bigint;
+  swapAmountOut?: bigint;
+  // Input not used by the deposit, left in the user's wallet
+  leftover0?: bigint;
+  leftover1?: bigint;
+}
+
+// Quote for a deposit, computed from live vault totals before anything is signed
+interface DepositPreview {
+  vault: VaultInfo;
+  // SDK deposit ratio for the token0 -> token1 direction
+  depositRatio: number | null;
+  expectedShares: bigint;
+  // Underlying amounts backing one whole vault share
+  sharePrice: { amount0: bigint; amount1: bigint };
+  // Amounts the vault will pull at its current ratio
+  amount0Used: bigint;
+  amount1Used: bigint;
+  // Desired amounts the vault will not pull, left in the user's wallet
+  amount0Unused: bigint;
+  amount1Unused: bigint;
+  // Minimum amounts derived from `slippage`
+  amount0Min: bigint;
+  amount1Min: bigint;
+  // Fraction of the vault's supply held by the new shares after the deposit
+  shareOfVault: number;
+  // Fraction of the input value, at the pool spot price, that the vault's ratio
+  // leaves undeposited; null when the pool price cannot be read
+  unusedValueRatio: number | null;
 }
 
 /**
@@ -55,12 +125,24 @@ interface GasEstimationResult {
  */
 export class SmartPoolDepositManager {
   private steerClient: SteerClient;
+  private vaultResolver: VaultMetadataResolver;
+  private poolSwapper: PoolSwapper;
+  private approvalManager: ApprovalManager;
+  private nativeCurrency: NativeCurrencyHelper;
+  private preflight: VaultPreflight;
+  private txGuard: TxGuard;
   private publicClient: any;
   private walletClient: any;
 
   constructor(publicClient: any, walletClient: any, environment: 'development' | 'production' = 'production') {
     this.publicClient = publicClient;
     this.walletClient = walletClient;
+    this.vaultResolver = new VaultMetadataResolver(publicClient);
+    this.poolSwapper = new PoolSwapper(publicClient, walletClient);
+    this.approvalManager = new ApprovalManager(publicClient, walletClient);
+    this.nativeCurrency = new NativeCurrencyHelper(publicClient, walletClient);
+    this.preflight = new VaultPreflight(publicClient);
+    this.txGuard = new TxGuard(publicClient, walletClient);
     
     this.steerClient = new SteerClient({
       environment,
@@ -78,27 +160,7 @@ export class SmartPoolDepositManager {
    */
   async getVaultInfo(vaultAddress: string): Promise<VaultInfo | null> {
     try {
-      // This would typically come from the Steer API or subgraph
-      // For demonstration, we'll use mock data
-      const mockVaults: Record<string, VaultInfo> = {
-        '0x1234567890123456789012345678901234567890': {
-          address: vaultAddress,
-          token0: {
-            address: '0xA0b86a33E6417C4b9A8E0C3B5d9c8F4A3E2D1C0B',
-            symbol: 'USDC',
-            decimals: 6
-          },
-          token1: {
-            address: '0xB1c97a44F6528D2C9B3F1E5D8C7A6B5E4D3C2B1A',
-            symbol: 'USDT',
-            decimals: 6
-          },
-          name: 'USDC/USDT Smart Pool',
-          protocol: 'Uniswap V3'
-        }
-      };
-
-      return mockVaults[vaultAddress] || null;
+      return await this.vaultResolver.resolve(vaultAddress);
     } catch (error) {
       console.error('Failed to get vault info:', error);
       return null;
@@ -186,23 +248,11 @@ export class SmartPoolDepositManager {
     spender: string
   ): Promise<bigint> {
     try {
-      const allowance = await this.publicClient.readContract({
-        address: tokenAddress as `0x${string}`,
-        abi: [{
-          name: 'allowance',
-          type: 'function',
-          stateMutability: 'view',
-          inputs: [
-            { name: 'owner', type: 'address' },
-            { name: 'spender', type: 'address' }
-          ],
-          outputs: [{ name: '', type: 'uint256' }]
-        }],
-        functionName: 'allowance',
-        args: [owner as `0x${string}`, spender as `0x${string}`]
-      });
-
-      return allowance as bigint;
+      return await this.approvalManager.getAllowance(
+        tokenAddress as Address,
+        owner as Address,
+        spender as Address
+      );
     } catch (error) {
       console.error('Failed to get token allowance:', error);
       return 0n;
@@ -215,50 +265,169 @@ export class SmartPoolDepositManager {
   async approveToken(
     tokenAddress: string,
     spender: string,
-    amount: bigint
+    amount: bigint,
+    account?: Address
   ): Promise<string | null> {
     try {
-      const hash = await this.walletClient.writeContract({
-        address: tokenAddress as `0x${string}`,
-        abi: [{
-          name: 'approve',
-          type: 'function',
-          stateMutability: 'nonpayable',
-          inputs: [
-            { name: 'spender', type: 'address' },
-            { name: 'amount', type: 'uint256' }
-          ],
-          outputs: [{ name: '', type: 'bool' }]
-        }],
-        functionName: 'approve',
-        args: [spender as `0x${string}`, amount]
-      });
-
-      // Wait for transaction confirmation
-      await this.publicClient.waitForTransactionReceipt({ hash });
-      return hash;
+      return await this.approvalManager.approve(tokenAddress as Address, spender as Address, amount, account);
     } catch (error) {
       console.error('Failed to approve token:', error);
       return null;
     }
   }
 
+  /**
+   * Resolve the contract that will pull tokens for a deposit
+   *
+   * This is the vault for direct deposits and the periphery contract when
+   * `isSteerPeriphery` is set.
+   */
+  async resolveSpender(params: DepositParams): Promise<Address> {
+    const preparedTx = await this.prepareDeposit(params);
+    return ApprovalManager.resolveSpender(preparedTx);
+  }
+
+  /**
+   * List the user's outstanding allowances to the given vaults, the chain's
+   * Steer periphery and any extra spenders
+   */
+  async listAllowances(owner: Address, vaultAddresses: string[], spenders: Address[] = []) {
+    return this.approvalManager.listAllowances(owner, vaultAddresses, spenders);
+  }
+
+  /**
+   * Revoke the user's outstanding allowances to the given vaults, the chain's
+   * Steer periphery and any extra spenders
+   */
+  async revokeAllowances(owner: Address, vaultAddresses: string[], spenders: Address[] = []): Promise<string[]> {
+    const allowances = await this.approvalManager.listAllowances(owner, vaultAddresses, spenders);
+    return this.approvalManager.revokeAllowances(owner, allowances);
+  }
+
+  /**
+   * Wrap enough native currency to cover the vault's wrapped-native side
+   *
+   * Only the shortfall over the user's existing wrapped balance is wrapped.
+   * Returns the wrap transaction hash, or undefined when nothing was wrapped.
+   */
+  private async wrapNativeForDeposit(
+    vaultInfo: VaultInfo,
+    owner: Address,
+    params: DepositParams
+  ): Promise<string | undefined> {
+    const isToken0Native = await this.nativeCurrency.isWrappedNative(vaultInfo.token0.address);
+    if (!isToken0Native && !(await this.nativeCurrency.isWrappedNative(vaultInfo.token1.address))) {
+      throw new ValidationError(`${vaultInfo.name} has no wrapped native token`, 'useNative');
+    }
+
+    const [wrappedToken, desired] = isToken0Native
+      ? [vaultInfo.token0, params.amount0Desired]
+      : [vaultInfo.token1, params.amount1Desired];
+
+    const wrappedBalance = await this.getTokenBalance(wrappedToken.address, owner);
+    if (wrappedBalance >= desired) {
+      return undefined;
+    }
+
+    const shortfall = desired - wrappedBalance;
+    const nativeBalance = await this.nativeCurrency.getNativeBalance(owner);
+    if (nativeBalance < shortfall) {
+      throw new Error(`Insufficient native balance to wrap ${formatUnits(shortfall, wrappedToken.decimals)} ${wrappedToken.symbol}`);
+    }
+
+    console.log(`🎁 Wrapping ${formatUnits(shortfall, wrappedToken.decimals)} into ${wrappedToken.symbol}...`);
+    const hash = await this.nativeCurrency.wrap(shortfall, owner);
+    console.log(`✅ Wrapped: ${hash}`);
+    return hash;
+  }
+
+  /**
+   * Re-quote the vault ratio and compare it with the ratio the deposit was planned with
+   *
+   * Drift is the relative change between the two ratios, so a deliberately
+   * unbalanced deposit passes as long as the vault ratio holds. Single-sided
+   * deposits and deposits without both ratios are skipped. When adjusting, the
+   * amounts are shrunk to the largest deposit that fits the current ratio, so
+   * existing approvals still cover them.
+   */
+  private async checkRatioDrift(params: DepositParams, quotedRatio: number | null): Promise<RatioDriftCheck> {
+    const unchanged = { amount0: params.amount0Desired, amount1: params.amount1Desired };
+    const currentRatio = await this.getDepositRatio(params.vaultAddress, true);
+
+    if (params.amount0Desired === 0n || params.amount1Desired === 0n) {
+      return { action: 'skipped', quotedRatio, currentRatio, ...unchanged };
+    }
+
+    if (quotedRatio === null || currentRatio === null || !(quotedRatio > 0)) {
+      console.warn('⚠️  Could not compare the deposit ratio with the quote, continuing with the original amounts');
+      return { action: 'skipped', quotedRatio, currentRatio, ...unchanged };
+    }
+
+    const driftBps = Math.round(Math.abs(currentRatio - quotedRatio) / quotedRatio * 10_000);
+    const maxDriftBps = params.maxRatioDriftBps ?? 100;
+
+    if (driftBps <= maxDriftBps) {
+      return { action: 'none', quotedRatio, currentRatio, driftBps, ...unchanged };
+    }
+
+    if ((params.onRatioDrift ?? 'abort') === 'abort') {
+      console.error(`⛔ Deposit ratio drifted ${driftBps} bps (max ${maxDriftBps} bps), aborting`);
+      return { action: 'aborted', quotedRatio, currentRatio, driftBps, ...unchanged };
+    }
+
+    const adjusted = await this.fitToDepositRatio(params.vaultAddress, params.amount0Desired, params.amount1Desired, true);
+    if (!adjusted) {
+      console.error(`⛔ Deposit ratio drifted ${driftBps} bps and the amounts could not be adjusted, aborting`);
+      return { action: 'aborted', quotedRatio, currentRatio, driftBps, ...unchanged };
+    }
+
+    console.warn(`⚠️  Deposit ratio drifted ${driftBps} bps, adjusting amounts to the current ratio`);
+    return { action: 'adjusted', quotedRatio, currentRatio, driftBps, ...adjusted };
+  }
+
+  /**
+   * Check vault state before a deposit is prepared
+   *
+   * Reports blocking issues (paused vault, supply cap) and warnings
+   * (positions out of range) for the shares the deposit is expected to mint.
+   */
+  async preflightDeposit(params: DepositParams): Promise<PreflightResult> {
+    let expectedShares = 0n;
+    try {
+      const totals = await this.vaultResolver.getTotals(params.vaultAddress);
+      expectedShares = DepositUtils.calculateExpectedShares(params.amount0Desired, params.amount1Desired, totals).shares;
+    } catch (error) {
+      console.warn('⚠️  Could not estimate shares for the supply cap check:', error);
+    }
+
+    const result = await this.preflight.checkDeposit(params.vaultAddress, expectedShares);
+    result.blocking.forEach(issue => console.error(`⛔ ${issue.message}`));
+    result.warnings.forEach(issue => console.warn(`⚠️  ${issue.message}`));
+    return result;
+  }
+
   /**
    * Prepare deposit transaction
    */
   async prepareDeposit(params: DepositParams) {
     try {
-      // Mock transaction preparation for demonstration
-      // In a real implementation, this would use the actual SDK methods
-        const preparedTx = await this.steerClient.vaults.prepareDepositTx({
-          vaultAddress: params.vaultAddress as `0x${string}`,
-          amount0Desired: params.amount0Desired,
-          amount1Desired: params.amount1Desired,
-          slippage: params.slippage,
-          to: params.recipient || '0x0000000000000000000000000000000000000000',
-          isSteerPeriphery: params.isSteerPeriphery,
-          chainId: params.chainId
-        });
+      // Validate the recipient (defaulting to the signer), chain and vault code before preparing
+      const { recipient } = await this.txGuard.check({
+        account: params.account,
+        recipient: params.recipient,
+        chainId: params.chainId,
+        contracts: [params.vaultAddress]
+      });
+
+      const preparedTx = await this.steerClient.vaults.prepareDepositTx({
+        vaultAddress: params.vaultAddress as `0x${string}`,
+        amount0Desired: params.amount0Desired,
+        amount1Desired: params.amount1Desired,
+        slippage: params.slippage,
+        to: recipient,
+        isSteerPeriphery: params.isSteerPeriphery,
+        chainId: params.chainId
+      });
 
       return preparedTx;
     } catch (error) {
@@ -270,95 +439,46 @@ export class SmartPoolDepositManager {
   /**
    * Estimate gas for a prepared deposit transaction
    */
-  async estimateGasForPreparedTx(preparedTx: any, userAddress: Address): Promise<GasEstimationResult> {
-    try {
-      console.log('🔍 Estimating gas for prepared deposit transaction...');
-      
-      if (!preparedTx || !preparedTx.success || !preparedTx.data) {
-        return {
-          gasEstimate: null,
-          willRevert: true,
-          error: 'Invalid prepared transaction data'
-        };
-      }
-
-      const txData = preparedTx.data;
-
-      // Estimate gas using the public client with the contract call
-      const gasEstimate = await this.publicClient.estimateContractGas({
-        address: txData.address,
-        abi: txData.abi,
-        functionName: txData.functionName,
-        args: txData.args,
-        account: userAddress
-      });
-
-      console.log(`✅ Gas estimation successful: ${gasEstimate.toString()} gas units`);
-      
-      // Calculate gas cost in ETH (assuming 20 gwei gas price)
-      const gasPriceGwei = 20n; // 20 gwei
-      const gasPriceWei = gasPriceGwei * 1000000000n; // Convert to wei
-      const gasCostWei = gasEstimate * gasPriceWei;
-      const gasCostInEth = formatEther(gasCostWei);
-      
-      return {
-        gasEstimate,
-        willRevert: false,
-        gasCostInEth
-      };
-
-    } catch (error: any) {
-      console.error('❌ Gas estimation failed:', error);
-      
-      // Check if the error indicates a revert
-      const willRevert = this.isRevertError(error);
-      
-      return {
-        gasEstimate: null,
-        willRevert,
-        error: error.message || 'Unknown error during gas estimation'
-      };
+  async estimateGasForPreparedTx(
+    preparedTx: any,
+    userAddress: Address,
+    options: GasEstimatorOptions = {}
+  ): Promise<GasEstimationResult> {
+    console.log('🔍 Estimating gas for prepared deposit transaction...');
+
+    const estimation = await new GasEstimator(this.publicClient, options).estimate(preparedTx, userAddress);
+    if (estimation.gasEstimate === null) {
+      console.error('❌ Gas estimation failed:', estimation.error);
+    } else {
+      console.log(`✅ Gas estimation successful: ${estimation.gasEstimate.toString()} gas units (~${estimation.gasCostInNative} ${estimation.nativeSymbol})`);
     }
+
+    return estimation;
   }
 
   /**
-   * Check if an error indicates a transaction revert
+   * Simulate a prepared deposit transaction and decode any revert
    */
-  private isRevertError(error: any): boolean {
-    const revertIndicators = [
-      'execution reverted',
-      'revert',
-      'insufficient funds',
-      'insufficient balance',
-      'transfer amount exceeds balance',
-      'allowance exceeded',
-      'exceeds allowance',
-      'slippage tolerance exceeded',
-      'minimum amount not met',
-      'deadline exceeded'
-    ];
-
-    const errorMessage = error?.message?.toLowerCase() || '';
-    const errorCode = error?.code?.toString() || '';
-    
-    // Check for common revert conditions
-    return revertIndicators.some(indicator => 
-      errorMessage.includes(indicator) || 
-      errorCode.includes('CALL_EXCEPTION') ||
-      errorCode.includes('UNPREDICTABLE_GAS_LIMIT')
-    );
+  async simulate(preparedTx: any, account: Address): Promise<SimulationResult> {
+    const simulation = await new TxSimulator(this.publicClient).simulate(preparedTx, account);
+    if (!simulation.success) {
+      console.warn(`⚠️  Deposit simulation failed: ${simulation.revert?.reason ?? simulation.error}`);
+    }
+    return simulation;
   }
 
   /**
    * Execute deposit transaction
    */
-  async executeDeposit(preparedTx: any): Promise<string | null> {
+  async executeDeposit(preparedTx: any, account?: Address, nonce?: number): Promise<string | null> {
     try {
       const hash = await this.walletClient.writeContract({
+        account,
         address: preparedTx.address,
         abi: preparedTx.abi,
         functionName: preparedTx.functionName,
-        args: preparedTx.args
+        args: preparedTx.args,
+        nonce
       });
 
       return hash;
@@ -375,7 +495,16 @@ export class SmartPoolDepositManager {
     try {
       console.log('🚀 Starting Smart Pool deposit process...');
 
-      // 1. Get vault information
+      // 1. Check the recipient, chain and vault code before anything is signed
+      await this.txGuard.check({
+        account: params.account,
+        recipient: params.recipient,
+        chainId: params.chainId,
+        contracts: [params.vaultAddress]
+      });
+      const userAddr = await this.txGuard.resolveAccount(params.account);
+
+      // 2. Get vault information
       const vaultInfo = await this.getVaultInfo(params.vaultAddress);
       if (!vaultInfo) {
         throw new Error('Vault not found or invalid');
@@ -385,9 +514,27 @@ export class SmartPoolDepositManager {
       console.log(`🪙 Token0: ${vaultInfo.token0.symbol} (${formatUnits(params.amount0Desired, vaultInfo.token0.decimals)})`);
       console.log(`🪙 Token1: ${vaultInfo.token1.symbol} (${formatUnits(params.amount1Desired, vaultInfo.token1.decimals)})`);
 
-      // 2. Get user address
-      const userAddress = await this.walletClient.getAddresses();
-      const userAddr = userAddress[0];
+      // Ratio the amounts were planned with, compared again right before executing
+      const quotedRatio = params.quotedRatio ?? await this.getDepositRatio(params.vaultAddress, true);
+
+      // Check vault state so a paused or capped vault does not waste gas
+      let preflight: PreflightResult | undefined;
+      if (!params.skipPreflight) {
+        preflight = await this.preflightDeposit(params);
+        if (!preflight.ok) {
+          return {
+            success: false,
+            preflight,
+            error: `Vault pre-flight failed: ${preflight.blocking.map(issue => issue.message).join('; ')}`
+          };
+        }
+      }
+
+      // Wrap native currency to cover the wrapped-native side when requested
+      let wrapTransactionHash: string | undefined;
+      if (params.useNative) {
+        wrapTransactionHash = await this.wrapNativeForDeposit(vaultInfo, userAddr, params);
+      }
 
       // 3. Check token balances
       const balance0 = await this.getTokenBalance(vaultInfo.token0.address, userAddr);
@@ -402,85 +549,457 @@ export class SmartPoolDepositManager {
 
       console.log('✅ Token balances sufficient');
 
-      // 4. Check and handle token approvals
-      const allowance0 = await this.getTokenAllowance(
-        vaultInfo.token0.address,
-        userAddr,
-        params.vaultAddress
-      );
-      const allowance1 = await this.getTokenAllowance(
-        vaultInfo.token1.address,
-        userAddr,
-        params.vaultAddress
-      );
+      // 4. Prepare deposit transaction
+      console.log('⚙️  Preparing deposit transaction...');
+      let preparedTx = await this.prepareDeposit({ ...params, account: userAddr });
+      if (!preparedTx || !preparedTx.success || !preparedTx.data) {
+        throw new Error('Failed to prepare deposit transaction');
+      }
 
-      // Approve token0 if needed
-      if (allowance0 < params.amount0Desired) {
-        console.log(`🔐 Approving ${vaultInfo.token0.symbol}...`);
-        const approveHash0 = await this.approveToken(
-          vaultInfo.token0.address,
-          params.vaultAddress,
-          params.amount0Desired
+      // 5. Approve the contract the deposit actually calls (vault or periphery)
+      const spender = ApprovalManager.resolveSpender(preparedTx);
+      const authorizationOptions = { policy: params.approvalPolicy };
+      const approvals: [TokenInfo, AuthorizationResult][] = [];
+      let result: DepositResult | undefined;
+
+      // Allowances granted for this deposit are revoked however it ends
+      try {
+        const approval0 = await this.approvalManager.authorize(
+          vaultInfo.token0,
+          userAddr,
+          spender,
+          params.amount0Desired,
+          authorizationOptions
+        );
+        approvals.push([vaultInfo.token0, approval0]);
+        const approval1 = await this.approvalManager.authorize(
+          vaultInfo.token1,
+          userAddr,
+          spender,
+          params.amount1Desired,
+          authorizationOptions
         );
-        if (!approveHash0) {
-          throw new Error(`Failed to approve ${vaultInfo.token0.symbol}`);
+        approvals.push([vaultInfo.token1, approval1]);
+
+        // Approvals can take minutes, so re-quote the vault ratio right before executing
+        const ratioCheck = await this.checkRatioDrift(params, quotedRatio);
+        if (ratioCheck.action === 'aborted') {
+          result = {
+            success: false,
+            approvals: { token0: approval0.method, token1: approval1.method },
+            spender,
+            wrapTransactionHash,
+            preflight,
+            ratioCheck,
+            error: `Deposit ratio drifted ${ratioCheck.driftBps} bps since the quote`
+          };
+          return result;
+        }
+        if (ratioCheck.action === 'adjusted') {
+          preparedTx = await this.prepareDeposit({
+            ...params,
+            account: userAddr,
+            amount0Desired: ratioCheck.amount0,
+            amount1Desired: ratioCheck.amount1
+          });
+          if (!preparedTx || !preparedTx.success || !preparedTx.data) {
+            throw new Error('Failed to prepare adjusted deposit transaction');
+          }
         }
-        console.log(`✅ ${vaultInfo.token0.symbol} approved: ${approveHash0}`);
-      }
 
-      // Approve token1 if needed
-      if (allowance1 < params.amount1Desired) {
-        console.log(`🔐 Approving ${vaultInfo.token1.symbol}...`);
-        const approveHash1 = await this.approveToken(
-          vaultInfo.token1.address,
+        // 6. Execute deposit
+        console.log('💸 Executing deposit...');
+        const depositHash = await this.executeDeposit(preparedTx.data, userAddr);
+        if (!depositHash) {
+          throw new Error('Failed to execute deposit transaction');
+        }
+
+        console.log(`✅ Deposit successful: ${depositHash}`);
+
+        // 7. Wait for confirmation and get receipt
+        const receipt = await this.publicClient.waitForTransactionReceipt({ 
+          hash: depositHash 
+        });
+        if (receipt.status !== 'success') {
+          throw new Error(`Deposit transaction reverted: ${depositHash}`);
+        }
+
+        // Decode shares minted and token amounts pulled from the receipt
+        const decoded = VaultReceiptDecoder.decodeDeposit(
+          receipt,
           params.vaultAddress,
-          params.amount1Desired
+          params.recipient || userAddr
         );
-        if (!approveHash1) {
-          throw new Error(`Failed to approve ${vaultInfo.token1.symbol}`);
+        if (!decoded.hasDepositEvent) {
+          console.warn('⚠️  No vault Deposit event found in receipt');
+        }
+
+        console.log(`🎟️  Shares received: ${formatUnits(decoded.sharesMinted, vaultInfo.decimals)}`);
+        console.log(`🪙 ${vaultInfo.token0.symbol} deposited: ${formatUnits(decoded.amount0, vaultInfo.token0.decimals)}`);
+        console.log(`🪙 ${vaultInfo.token1.symbol} deposited: ${formatUnits(decoded.amount1, vaultInfo.token1.decimals)}`);
+
+        result = {
+          success: true,
+          transactionHash: depositHash,
+          approvals: { token0: approval0.method, token1: approval1.method },
+          spender,
+          preflight,
+          ratioCheck,
+          wrapTransactionHash,
+          sharesReceived: decoded.sharesMinted,
+          amount0Deposited: decoded.amount0,
+          amount1Deposited: decoded.amount1
+        };
+        return result;
+      } finally {
+        try {
+          const revokeTransactionHashes = await this.approvalManager.revokeUnused(approvals, userAddr, spender);
+          if (result) {
+            result.revokeTransactionHashes = revokeTransactionHashes;
+          }
+        } catch (error) {
+          console.warn('⚠️  Failed to revoke deposit allowances:', error);
         }
-        console.log(`✅ ${vaultInfo.token1.symbol} approved: ${approveHash1}`);
       }
 
-      // 5. Prepare deposit transaction
-      console.log('⚙️  Preparing deposit transaction...');
-      const preparedTx = await this.prepareDeposit(params);
+    } catch (error) {
+      console.error('❌ Deposit failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
 
-      // 6. Execute deposit
-      console.log('💸 Executing deposit...');
-      const depositHash = await this.executeDeposit(preparedTx);
-      if (!depositHash) {
-        throw new Error('Failed to execute deposit transaction');
+  /**
+   * Preview a deposit: expected shares, share price, amounts used and slippage minimums
+   *
+   * Mirrors the vault's own share math against its current totals, so the
+   * result holds as long as the vault is not rebalanced before the deposit lands.
+   */
+  async previewDeposit(params: DepositParams): Promise<DepositPreview | null> {
+    try {
+      const vaultInfo = await this.getVaultInfo(params.vaultAddress);
+      if (!vaultInfo) {
+        throw new Error('Vault not found or invalid');
       }
 
-      console.log(`✅ Deposit successful: ${depositHash}`);
+      const [totals, depositRatio, sqrtPriceX96] = await Promise.all([
+        this.vaultResolver.getTotals(params.vaultAddress),
+        this.getDepositRatio(params.vaultAddress, true),
+        this.getSpotSqrtPrice(vaultInfo.pool)
+      ]);
 
-      // 7. Wait for confirmation and get receipt
-      const receipt = await this.publicClient.waitForTransactionReceipt({ 
-        hash: depositHash 
-      });
+      const { shares, amount0, amount1 } = DepositUtils.calculateExpectedShares(
+        params.amount0Desired,
+        params.amount1Desired,
+        totals
+      );
 
-      // Extract shares received from transaction logs if available
-      let sharesReceived: bigint | undefined;
-      if (receipt.logs && receipt.logs.length > 0) {
-        // This would parse the actual transfer event to get shares
-        // Implementation depends on the specific vault contract
-        sharesReceived = 0n; // Placeholder
-      }
+      const oneShare = 10n ** BigInt(vaultInfo.decimals);
+      const sharePrice = totals.totalSupply > 0n
+        ? {
+            amount0: (totals.total0 * oneShare) / totals.totalSupply,
+            amount1: (totals.total1 * oneShare) / totals.totalSupply
+          }
+        : { amount0: 0n, amount1: 0n };
+
+      const supplyAfter = totals.totalSupply + shares;
+      const slippageBps = AmountMath.slippageToBps(params.slippage);
 
       return {
-        success: true,
-        transactionHash: depositHash,
-        sharesReceived
+        vault: vaultInfo,
+        depositRatio,
+        expectedShares: shares,
+        sharePrice,
+        amount0Used: amount0,
+        amount1Used: amount1,
+        amount0Unused: params.amount0Desired - amount0,
+        amount1Unused: params.amount1Desired - amount1,
+        amount0Min: AmountMath.applySlippage(amount0, slippageBps),
+        amount1Min: AmountMath.applySlippage(amount1, slippageBps),
+        shareOfVault: supplyAfter > 0n ? Number((shares * 1_000_000n) / supplyAfter) / 1_000_000 : 0,
+        unusedValueRatio: sqrtPriceX96 === null
+          ? null
+          : DepositUtils.calculateUnusedValueRatio(
+              params.amount0Desired,
+              params.amount1Desired,
+              params.amount0Desired - amount0,
+              params.amount1Desired - amount1,
+              sqrtPriceX96
+            )
       };
+    } catch (error) {
+      console.error('Failed to preview deposit:', error);
+      return null;
+    }
+  }
 
+  /**
+   * Read the pool's spot sqrtPriceX96, or null when the pool has no Uniswap V3 `slot0`
+   */
+  private async getSpotSqrtPrice(pool?: string): Promise<bigint | null> {
+    if (!pool) {
+      return null;
+    }
+    try {
+      const slot0 = await this.publicClient.readContract({
+        address: pool as Address,
+        abi: uniswapV3PoolAbi,
+        functionName: 'slot0'
+      });
+      return slot0[0];
     } catch (error) {
-      console.error('❌ Deposit failed:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      };
+      console.warn(`⚠️  Failed to read spot price of pool ${pool}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Deposit into several vaults in one run
+   *
+   * Balances are checked against the combined amounts, allowances are granted
+   * once per token and spender for the combined amounts (using the approval
+   * options of the first deposit that needs them), and the deposits are then
+   * submitted back to back with sequential nonces. Each vault's ratio is
+   * re-quoted right before its deposit is submitted, as in `deposit`, and
+   * reported in its `ratioCheck`. A failing item is reported in its own result
+   * and does not stop the others. Every deposit is made by `account`; an item
+   * naming a different account fails, and when the account cannot be resolved
+   * every item fails. Native deposits are not supported in batches.
+   */
+  async depositBatch(paramsList: DepositParams[], account?: Address): Promise<BatchDepositResult> {
+    console.log(`🚀 Starting batch deposit into ${paramsList.length} vaults...`);
+
+    const results: DepositResult[] = paramsList.map(() => ({ success: false }));
+    const fail = (index: number, error: unknown) => {
+      console.error(`❌ Batch deposit ${index} failed:`, error);
+      results[index] = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    };
+
+    let userAddr: Address;
+    try {
+      userAddr = await this.txGuard.resolveAccount(account);
+    } catch (error) {
+      paramsList.forEach((_, index) => fail(index, error));
+      return { results, succeeded: 0, failed: paramsList.length };
+    }
+
+    // 1. Validate balances against the running total and prepare every deposit
+    const committed = new Map<string, bigint>();
+    const prepared: {
+      index: number;
+      params: DepositParams;
+      vaultInfo: VaultInfo;
+      call: any;
+      spender: Address;
+      quotedRatio: number | null;
+      ratioCheck?: RatioDriftCheck;
+    }[] = [];
+    for (const [index, params] of paramsList.entries()) {
+      try {
+        if (params.useNative) {
+          throw new ValidationError('Native deposits are not supported in batches', 'useNative');
+        }
+        if (params.account !== undefined && !isAddressEqual(await this.txGuard.resolveAccount(params.account), userAddr)) {
+          throw new ValidationError(`Batch deposits are signed by ${userAddr}, not ${params.account}`, 'account');
+        }
+
+        const vaultInfo = await this.getVaultInfo(params.vaultAddress);
+        if (!vaultInfo) {
+          throw new Error('Vault not found or invalid');
+        }
+
+        const required: [TokenInfo, bigint][] = [
+          [vaultInfo.token0, params.amount0Desired],
+          [vaultInfo.token1, params.amount1Desired]
+        ];
+        for (const [token, amount] of required) {
+          const balance = await this.getTokenBalance(token.address, userAddr);
+          const alreadyCommitted = committed.get(token.address.toLowerCase()) ?? 0n;
+          if (balance - alreadyCommitted < amount) {
+            throw new Error(`Insufficient ${token.symbol} balance for ${vaultInfo.name}`);
+          }
+        }
+
+        const quotedRatio = params.quotedRatio ?? await this.getDepositRatio(params.vaultAddress, true);
+
+        if (!params.skipPreflight) {
+          const preflight = await this.preflightDeposit(params);
+          if (!preflight.ok) {
+            throw new Error(`Vault pre-flight failed: ${preflight.blocking.map(issue => issue.message).join('; ')}`);
+          }
+        }
+
+        const preparedTx = await this.prepareDeposit({ ...params, account: userAddr });
+        if (!preparedTx || !preparedTx.success || !preparedTx.data) {
+          throw new Error('Failed to prepare deposit transaction');
+        }
+
+        for (const [token, amount] of required) {
+          const key = token.address.toLowerCase();
+          committed.set(key, (committed.get(key) ?? 0n) + amount);
+        }
+        prepared.push({
+          index,
+          params,
+          vaultInfo,
+          call: preparedTx.data,
+          spender: ApprovalManager.resolveSpender(preparedTx),
+          quotedRatio
+        });
+      } catch (error) {
+        fail(index, error);
+      }
+    }
+
+    // 2. Authorize each token and spender once for the combined amount
+    const authorizations = new Map<string, {
+      token: TokenInfo;
+      spender: Address;
+      amount: bigint;
+      params: DepositParams;
+      indexes: number[];
+      approval?: AuthorizationResult;
+    }>();
+    for (const item of prepared) {
+      const required: [TokenInfo, bigint][] = [
+        [item.vaultInfo.token0, item.params.amount0Desired],
+        [item.vaultInfo.token1, item.params.amount1Desired]
+      ];
+      for (const [token, amount] of required) {
+        const key = `${token.address.toLowerCase()}:${item.spender.toLowerCase()}`;
+        const entry = authorizations.get(key) ?? { token, spender: item.spender, amount: 0n, params: item.params, indexes: [] };
+        entry.amount += amount;
+        entry.indexes.push(item.index);
+        authorizations.set(key, entry);
+      }
+    }
+
+    const failedIndexes = new Set<number>();
+    for (const entry of authorizations.values()) {
+      try {
+        entry.approval = await this.approvalManager.authorize(entry.token, userAddr, entry.spender, entry.amount, {
+          policy: entry.params.approvalPolicy
+        });
+      } catch (error) {
+        entry.indexes.forEach(index => {
+          failedIndexes.add(index);
+          fail(index, error);
+        });
+      }
+    }
+
+    // 3. Submit the deposits back to back with managed nonces
+    const nonces = new NonceManager(this.publicClient, userAddr);
+    const submitted: { item: typeof prepared[number]; hash: string }[] = [];
+    for (const item of prepared) {
+      if (failedIndexes.has(item.index)) {
+        continue;
+      }
+
+      // Approvals can take minutes, so re-quote the vault ratio right before submitting
+      try {
+        item.ratioCheck = await this.checkRatioDrift(item.params, item.quotedRatio);
+        if (item.ratioCheck.action === 'aborted') {
+          throw new Error(`Deposit ratio drifted ${item.ratioCheck.driftBps} bps since the quote`);
+        }
+        if (item.ratioCheck.action === 'adjusted') {
+          const preparedTx = await this.prepareDeposit({
+            ...item.params,
+            account: userAddr,
+            amount0Desired: item.ratioCheck.amount0,
+            amount1Desired: item.ratioCheck.amount1
+          });
+          if (!preparedTx || !preparedTx.success || !preparedTx.data) {
+            throw new Error('Failed to prepare adjusted deposit transaction');
+          }
+          item.call = preparedTx.data;
+        }
+      } catch (error) {
+        fail(item.index, error);
+        results[item.index].ratioCheck = item.ratioCheck;
+        continue;
+      }
+
+      let nonce: number;
+      try {
+        nonce = await nonces.peek();
+      } catch (error) {
+        fail(item.index, error);
+        results[item.index].ratioCheck = item.ratioCheck;
+        continue;
+      }
+      console.log(`💸 Submitting deposit into ${item.vaultInfo.name} (nonce ${nonce})...`);
+      const hash = await this.executeDeposit(item.call, userAddr, nonce);
+      if (!hash) {
+        nonces.reset();
+        fail(item.index, new Error('Failed to execute deposit transaction'));
+        results[item.index].ratioCheck = item.ratioCheck;
+        continue;
+      }
+      nonces.advance();
+      submitted.push({ item, hash });
     }
+
+    // 4. Wait for every deposit and decode the shares received
+    await Promise.all(submitted.map(async ({ item, hash }) => {
+      try {
+        const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+        if (receipt.status !== 'success') {
+          throw new Error(`Deposit transaction reverted: ${hash}`);
+        }
+
+        const decoded = VaultReceiptDecoder.decodeDeposit(
+          receipt,
+          item.params.vaultAddress,
+          item.params.recipient || userAddr
+        );
+        console.log(`✅ ${item.vaultInfo.name}: ${formatUnits(decoded.sharesMinted, item.vaultInfo.decimals)} shares`);
+
+        results[item.index] = {
+          success: true,
+          transactionHash: hash,
+          spender: item.spender,
+          ratioCheck: item.ratioCheck,
+          sharesReceived: decoded.sharesMinted,
+          amount0Deposited: decoded.amount0,
+          amount1Deposited: decoded.amount1
+        };
+      } catch (error) {
+        fail(item.index, error);
+        results[item.index].transactionHash = hash;
+        results[item.index].ratioCheck = item.ratioCheck;
+      }
+    }));
+
+    // 5. Record approval methods and revoke allowances granted for this batch only
+    for (const entry of authorizations.values()) {
+      if (!entry.approval) {
+        continue;
+      }
+      let revokeHashes: string[] = [];
+      try {
+        revokeHashes = await this.approvalManager.revokeUnused([[entry.token, entry.approval]], userAddr, entry.spender);
+      } catch (error) {
+        console.warn(`⚠️  Failed to revoke ${entry.token.symbol} allowance:`, error);
+      }
+
+      for (const index of entry.indexes) {
+        const result = results[index];
+        const item = prepared.find(p => p.index === index)!;
+        const side = isAddressEqual(entry.token.address as Address, item.vaultInfo.token0.address as Address) ? 'token0' : 'token1';
+        result.approvals = { ...(result.approvals ?? { token0: 'allowance', token1: 'allowance' }), [side]: entry.approval.method };
+        if (revokeHashes.length > 0) {
+          result.revokeTransactionHashes = [...(result.revokeTransactionHashes ?? []), ...revokeHashes];
+        }
+      }
+    }
+
+    const succeeded = results.filter(result => result.success).length;
+    console.log(`📦 Batch deposit complete: ${succeeded}/${paramsList.length} succeeded`);
+
+    return { results, succeeded, failed: paramsList.length - succeeded };
   }
 
   /**
@@ -517,6 +1036,194 @@ export class SmartPoolDepositManager {
       return null;
     }
   }
+
+  /**
+   * Deposit from a single token by swapping part of it into the other vault token
+   *
+   * The swap is sized against the vault's underlying pool so the remaining input
+   * and the swap output match the vault's deposit ratio. The vault pre-flight
+   * runs on the quoted amounts before the swap, so a paused or capped vault
+   * never leaves the user holding swapped tokens. Any amount the deposit does
+   * not use stays in the user's wallet and is reported as leftover.
+   *
+   * Only vaults on Uniswap V3 pools are supported, since the swap goes through
+   * the chain's Uniswap V3 router. Vaults on other DEXes (Algebra, Blackhole,
+   * ...) are refused up front with `unsupportedProtocol` set.
+   */
+  async zapDeposit(
+    vaultAddress: Address,
+    tokenIn: Address,
+    amountIn: bigint,
+    slippage: number,
+    account?: Address
+  ): Promise<ZapDepositResult> {
+    try {
+      console.log('🚀 Starting Smart Pool zap deposit...');
+
+      // Check the chain and vault code before the swap is signed
+      await this.txGuard.check({ account, contracts: [vaultAddress] });
+      const userAddr = await this.txGuard.resolveAccount(account);
+
+      // 1. Resolve vault tokens and direction
+      const vaultInfo = await this.getVaultInfo(vaultAddress);
+      if (!vaultInfo) {
+        throw new Error('Vault not found or invalid');
+      }
+      if (!vaultInfo.pool) {
+        throw new Error('Vault does not expose its underlying pool');
+      }
+      if (!(await this.poolSwapper.isUniswapV3Pool(vaultInfo.pool as Address))) {
+        console.error(`❌ ${vaultInfo.name} is not on a Uniswap V3 pool`);
+        return {
+          success: false,
+          unsupportedProtocol: true,
+          error: `Unsupported protocol: ${vaultInfo.name} is not on a Uniswap V3 pool, and zap deposits only swap through Uniswap V3`
+        };
+      }
+
+      const zeroForOne = isAddressEqual(tokenIn, vaultInfo.token0.address as Address);
+      if (!zeroForOne && !isAddressEqual(tokenIn, vaultInfo.token1.address as Address)) {
+        throw new ValidationError(`Token ${tokenIn} is not part of ${vaultInfo.name}`, 'tokenIn');
+      }
+
+      const [inputToken, outputToken] = zeroForOne
+        ? [vaultInfo.token0, vaultInfo.token1]
+        : [vaultInfo.token1, vaultInfo.token0];
+
+      const balance = await this.getTokenBalance(inputToken.address, userAddr);
+      if (balance < amountIn) {
+        throw new Error(`Insufficient ${inputToken.symbol} balance`);
+      }
+
+      // 2. Size the swap against the pool price and the vault ratio
+      const pairedAmount = await this.getCorrespondingTokenAmount(vaultAddress, amountIn, zeroForOne);
+      if (pairedAmount === null) {
+        throw new Error('Failed to calculate corresponding token amount');
+      }
+
+      const poolState = await this.poolSwapper.getPoolState(vaultInfo.pool as Address);
+      const swapAmount = PoolSwapper.calculateZapSwapAmount(
+        amountIn,
+        pairedAmount,
+        poolState.sqrtPriceX96,
+        poolState.fee,
+        zeroForOne
+      );
+
+      const quotedOut = swapAmount > 0n
+        ? await this.poolSwapper.quoteExactInput(
+            inputToken.address as Address,
+            outputToken.address as Address,
+            poolState.fee,
+            swapAmount
+          )
+        : 0n;
+
+      // 3. Check the vault accepts the expected deposit before anything is swapped
+      const [expected0, expected1] = zeroForOne ? [amountIn - swapAmount, quotedOut] : [quotedOut, amountIn - swapAmount];
+      const preflight = await this.preflightDeposit({
+        vaultAddress,
+        amount0Desired: expected0,
+        amount1Desired: expected1,
+        slippage
+      });
+      if (!preflight.ok) {
+        return {
+          success: false,
+          preflight,
+          error: `Vault pre-flight failed: ${preflight.blocking.map(issue => issue.message).join('; ')}`
+        };
+      }
+
+      // 4. Swap part of the input into the other token
+      let swapTransactionHash: string | undefined;
+      let swapAmountOut = 0n;
+      if (swapAmount > 0n) {
+        console.log(`🔄 Swapping ${formatUnits(swapAmount, inputToken.decimals)} ${inputToken.symbol} for ${outputToken.symbol}...`);
+
+        const swap = await this.poolSwapper.swapExactInput({
+          tokenIn: inputToken.address as Address,
+          tokenOut: outputToken.address as Address,
+          fee: poolState.fee,
+          amountIn: swapAmount,
+          amountOutMinimum: AmountMath.applySlippage(quotedOut, AmountMath.slippageToBps(slippage)),
+          recipient: userAddr
+        }, userAddr);
+
+        swapTransactionHash = swap.transactionHash;
+        swapAmountOut = swap.amountOut;
+        console.log(`✅ Swap successful: ${swapTransactionHash} (${formatUnits(swapAmountOut, outputToken.decimals)} ${outputToken.symbol})`);
+      }
+
+      // 5. Fit the post-swap balances to the current deposit ratio
+      const remainingIn = amountIn - swapAmount;
+      const amounts = await this.fitToDepositRatio(vaultAddress, remainingIn, swapAmountOut, zeroForOne);
+      if (!amounts) {
+        throw new Error('Failed to calculate deposit amounts after swap');
+      }
+
+      // 6. Deposit through the regular flow
+      const depositResult = await this.deposit({
+        vaultAddress,
+        amount0Desired: amounts.amount0,
+        amount1Desired: amounts.amount1,
+        slippage,
+        account: userAddr,
+        recipient: userAddr
+      });
+
+      const [available0, available1] = zeroForOne ? [remainingIn, swapAmountOut] : [swapAmountOut, remainingIn];
+      const leftover0 = depositResult.success ? available0 - (depositResult.amount0Deposited ?? amounts.amount0) : available0;
+      const leftover1 = depositResult.success ? available1 - (depositResult.amount1Deposited ?? amounts.amount1) : available1;
+
+      return {
+        ...depositResult,
+        swapTransactionHash,
+        amountSwapped: swapAmount,
+        swapAmountOut,
+        leftover0,
+        leftover1
+      };
+
+    } catch (error) {
+      console.error('❌ Zap deposit failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Largest deposit that fits both available balances at the vault's current ratio
+   */
+  private async fitToDepositRatio(
+    vaultAddress: string,
+    inputAmount: bigint,
+    outputAmount: bigint,
+    zeroForOne: boolean
+  ): Promise<{ amount0: bigint; amount1: bigint } | null> {
+    const outputNeeded = await this.getCorrespondingTokenAmount(vaultAddress, inputAmount, zeroForOne);
+    if (outputNeeded === null) {
+      return null;
+    }
+
+    let inputUsed = inputAmount;
+    let outputUsed = outputNeeded;
+    if (outputNeeded > outputAmount) {
+      const inputNeeded = await this.getCorrespondingTokenAmount(vaultAddress, outputAmount, !zeroForOne);
+      if (inputNeeded === null) {
+        return null;
+      }
+      inputUsed = inputNeeded < inputAmount ? inputNeeded : inputAmount;
+      outputUsed = outputAmount;
+    }
+
+    return {
+      amount0: zeroForOne ? inputUsed : outputUsed,
+      amount1: zeroForOne ? outputUsed : inputUsed
+    };
+  }
 }
 
 /**
@@ -545,10 +1252,27 @@ export class SmartPoolDepositExamples {
       isToken0Input
     );
 
-    if (optimalAmounts) {
+    const vaultInfo = await this.depositManager.getVaultInfo(vaultAddress);
+
+    if (optimalAmounts && vaultInfo) {
       console.log(`📊 Optimal deposit amounts:`);
-      console.log(`Token0 (WAVAX): ${formatUnits(optimalAmounts.amount0, 18)}`);
-      console.log(`Token1 (USDT): ${formatUnits(optimalAmounts.amount1, 6)}`);
+      console.log(`Token0 (${vaultInfo.token0.symbol}): ${formatUnits(optimalAmounts.amount0, vaultInfo.token0.decimals)}`);
+      console.log(`Token1 (${vaultInfo.token1.symbol}): ${formatUnits(optimalAmounts.amount1, vaultInfo.token1.decimals)}`);
+
+      const preview = await this.depositManager.previewDeposit({
+        vaultAddress,
+        amount0Desired: optimalAmounts.amount0,
+        amount1Desired: optimalAmounts.amount1,
+        slippage: 0.005
+      });
+
+      if (preview) {
+        console.log(`🔮 Deposit preview:`);
+        console.log(`Expected shares: ${formatUnits(preview.expectedShares, vaultInfo.decimals)}`);
+        console.log(`Share price: ${formatUnits(preview.sharePrice.amount0, vaultInfo.token0.decimals)} ${vaultInfo.token0.symbol} + ${formatUnits(preview.sharePrice.amount1, vaultInfo.token1.decimals)} ${vaultInfo.token1.symbol}`);
+        console.log(`Unused: ${formatUnits(preview.amount0Unused, vaultInfo.token0.decimals)} ${vaultInfo.token0.symbol}, ${formatUnits(preview.amount1Unused, vaultInfo.token1.decimals)} ${vaultInfo.token1.symbol}`);
+        console.log(`Minimums: ${formatUnits(preview.amount0Min, vaultInfo.token0.decimals)} ${vaultInfo.token0.symbol}, ${formatUnits(preview.amount1Min, vaultInfo.token1.decimals)} ${vaultInfo.token1.symbol}`);
+      }
 
       const result = await this.depositManager.prepareDeposit({
           vaultAddress,
@@ -612,22 +1336,87 @@ export class DepositUtils {
    * Format token amounts for display
    */
   static formatAmount(amount: bigint, decimals: number): string {
-    return formatUnits(amount, decimals);
+    return AmountMath.format({ raw: amount, decimals });
   }
 
   /**
    * Parse token amounts from string
    */
   static parseAmount(amount: string, decimals: number): bigint {
-    return parseUnits(amount, decimals);
+    return AmountMath.parse(amount, { decimals }).raw;
   }
 
   /**
    * Calculate slippage amount
+   *
+   * @deprecated Use `AmountMath.applySlippage` with basis points
    */
   static calculateSlippageAmount(amount: bigint, slippagePercent: number): bigint {
-    const slippage = BigInt(Math.floor(Number(amount) * slippagePercent));
-    return amount - slippage;
+    return AmountMath.applySlippage(amount, AmountMath.slippageToBps(slippagePercent));
+  }
+
+  /**
+   * Shares minted and amounts pulled for a deposit, following the vault contract
+   *
+   * An empty vault mints the larger of the two amounts. Otherwise the deposit
+   * is capped by whichever side is scarcer relative to the vault's holdings,
+   * with pulled amounts rounded up as the contract does.
+   */
+  static calculateExpectedShares(
+    amount0Desired: bigint,
+    amount1Desired: bigint,
+    totals: VaultTotals
+  ): { shares: bigint; amount0: bigint; amount1: bigint } {
+    const { totalSupply, total0, total1 } = totals;
+
+    if (totalSupply === 0n) {
+      return {
+        shares: amount0Desired > amount1Desired ? amount0Desired : amount1Desired,
+        amount0: amount0Desired,
+        amount1: amount1Desired
+      };
+    }
+    if (total0 === 0n) {
+      return { shares: (amount1Desired * totalSupply) / total1, amount0: 0n, amount1: amount1Desired };
+    }
+    if (total1 === 0n) {
+      return { shares: (amount0Desired * totalSupply) / total0, amount0: amount0Desired, amount1: 0n };
+    }
+
+    const cross0 = amount0Desired * total1;
+    const cross1 = amount1Desired * total0;
+    const cross = cross0 < cross1 ? cross0 : cross1;
+    if (cross === 0n) {
+      return { shares: 0n, amount0: 0n, amount1: 0n };
+    }
+
+    return {
+      shares: (cross * totalSupply) / total0 / total1,
+      amount0: (cross - 1n) / total1 + 1n,
+      amount1: (cross - 1n) / total0 + 1n
+    };
+  }
+
+  /**
+   * Fraction of the desired input value left unused, valuing both tokens in
+   * token1 at the pool's spot `sqrtPriceX96`
+   */
+  static calculateUnusedValueRatio(
+    amount0Desired: bigint,
+    amount1Desired: bigint,
+    amount0Unused: bigint,
+    amount1Unused: bigint,
+    sqrtPriceX96: bigint
+  ): number {
+    // Values are scaled by 2^192 so the price needs no division
+    const priceSquared = sqrtPriceX96 * sqrtPriceX96;
+    const Q192 = 2n ** 192n;
+    const valueIn = amount0Desired * priceSquared + amount1Desired * Q192;
+    if (valueIn === 0n) {
+      return 0;
+    }
+    const valueUnused = amount0Unused * priceSquared + amount1Unused * Q192;
+    return Number((valueUnused * 1_000_000n) / valueIn) / 1_000_000;
   }
 
   /**
@@ -660,5 +1449,5 @@ export class DepositUtils {
 }
 
 // Export types
-export type { DepositParams, DepositResult, TokenInfo, VaultInfo, GasEstimationResult };
+export type { DepositParams, DepositResult, RatioDriftCheck, BatchDepositResult, ZapDepositResult, DepositPreview, ApprovalMethod, TokenInfo, VaultInfo, GasEstimationResult };
 
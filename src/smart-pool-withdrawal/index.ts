@@ -6,10 +6,11 @@
  */
 
 import { SmartPoolWithdrawalExamples } from './smart-pool-withdrawal';
+import { SignerFactory } from '../signer-factory';
 
 // Main functionality
 export { SmartPoolWithdrawalManager, SmartPoolWithdrawalExamples, WithdrawalUtils } from './smart-pool-withdrawal';
-export type { WithdrawalParams, WithdrawalResult, TokenAmountsResponse } from './smart-pool-withdrawal';
+export type { WithdrawalParams, WithdrawalResult, BatchWithdrawalResult, AccountWithdrawalResult, WithdrawalPreview, SingleTokenWithdrawalResult, TokenAmountsResponse, TokenPriceSource } from './smart-pool-withdrawal';
 import {avalanche} from 'viem/chains';
 
 // Test functionality
@@ -17,17 +18,14 @@ import {avalanche} from 'viem/chains';
 // Convenience functions
 export async function runWithdrawalExamples(): Promise<void> {
   console.log('🚀 Running Smart Pool Withdrawal Examples...');
-  const { createPublicClient, createWalletClient, http } = await import('viem');
+  const { createPublicClient, http } = await import('viem');
   
   const publicClient = createPublicClient({
     chain: avalanche,
     transport: http()
   });
 
-  const walletClient = createWalletClient({
-    chain: avalanche,
-    transport: http()
-  });
+  const walletClient = SignerFactory.walletClientFromEnv(avalanche);
 
   const examples = new SmartPoolWithdrawalExamples(publicClient, walletClient);
   await examples.withdrawalExample();
@@ -0,0 +1,195 @@
+import { Address, zeroAddress } from 'viem';
+import { SmartPoolWithdrawalManager } from './smart-pool-withdrawal';
+import { VaultReceiptDecoder } from '../vault-receipts';
+
+describe('SmartPoolWithdrawalManager guards', () => {
+  const vault: Address = '0x1111111111111111111111111111111111111111';
+  const user: Address = '0x4444444444444444444444444444444444444444';
+
+  beforeEach(() => {
+    for (const method of ['log', 'warn', 'error'] as const) {
+      jest.spyOn(console, method).mockImplementation(() => undefined);
+    }
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it.each([
+    ['the zero address', zeroAddress, 'Recipient cannot be the zero address'],
+    ['a malformed address', '0x1234', 'Invalid recipient address: 0x1234']
+  ])('refuses a native payout to %s before building any transaction', async (_, recipient, error) => {
+    const publicClient = { chain: { id: 43114 }, getCode: jest.fn(async () => '0x60'), readContract: jest.fn(), multicall: jest.fn() };
+    const walletClient = { chain: { id: 43114 }, account: { address: user }, writeContract: jest.fn(), sendTransaction: jest.fn() };
+    const manager = new SmartPoolWithdrawalManager(publicClient, walletClient);
+
+    const result = await manager.withdraw({ vaultAddress: vault, shares: 1n, recipient: recipient as Address, useNative: true });
+
+    expect(result).toEqual({ success: false, error });
+    expect(publicClient.readContract).not.toHaveBeenCalled();
+    expect(publicClient.multicall).not.toHaveBeenCalled();
+    expect(walletClient.writeContract).not.toHaveBeenCalled();
+    expect(walletClient.sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('prepares a withdrawal for an explicit recipient on an account-less wallet client', async () => {
+    const publicClient = { chain: { id: 43114 }, getCode: jest.fn(async () => '0x60') };
+    const walletClient = { chain: { id: 43114 }, getAddresses: jest.fn(async () => []) };
+    const manager = new SmartPoolWithdrawalManager(publicClient, walletClient);
+    const prepareWithdrawTx = jest.fn(async () => ({ success: true, data: {} }));
+    (manager as any).steerClient = { vaults: { prepareWithdrawTx } };
+
+    await manager.prepareWithdrawTx({ vaultAddress: vault, shares: 1n, amount0Min: 0n, amount1Min: 0n, recipient: user });
+
+    expect(prepareWithdrawTx).toHaveBeenCalledWith(expect.objectContaining({ to: user }));
+    expect(walletClient.getAddresses).not.toHaveBeenCalled();
+  });
+
+  it('returns the landed withdrawal with a payout error when forwarding the native payout fails', async () => {
+    const wavax = '0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7';
+    const usdc = '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E';
+    const recipient: Address = '0x5555555555555555555555555555555555555555';
+    const publicClient = { chain: { id: 43114 }, waitForTransactionReceipt: jest.fn(async () => ({ status: 'success', logs: [] })) };
+    const walletClient = { chain: { id: 43114 }, account: { address: user } };
+    const manager = new SmartPoolWithdrawalManager(publicClient, walletClient);
+    const nativeCurrency = {
+      isWrappedNative: jest.fn(async (token: string) => token === wavax),
+      unwrap: jest.fn(async () => '0xunwrap'),
+      sendNative: jest.fn(async () => { throw new Error('insufficient funds for gas'); }),
+      sendToken: jest.fn()
+    };
+    Object.assign(manager as any, {
+      nativeCurrency,
+      vaultResolver: {
+        resolve: jest.fn(async () => ({
+          address: vault,
+          chainId: 43114,
+          name: 'WAVAX-USDC',
+          decimals: 18,
+          token0: { address: wavax, symbol: 'WAVAX', name: 'Wrapped AVAX', decimals: 18 },
+          token1: { address: usdc, symbol: 'USDC', name: 'USD Coin', decimals: 6 }
+        }))
+      }
+    });
+    jest.spyOn(manager, 'getLpTokenBalance').mockResolvedValue(10n as never);
+    jest.spyOn(manager, 'calculateOptimalWithdrawAmounts').mockResolvedValue({ amount0: 100n, amount1: 200n });
+    jest.spyOn(manager, 'prepareWithdrawTx').mockResolvedValue({ success: true, data: {} } as never);
+    jest.spyOn(manager, 'executeWithdrawal').mockResolvedValue('0xwithdraw');
+    jest.spyOn(VaultReceiptDecoder, 'decodeWithdrawal').mockReturnValue({
+      sharesBurned: 10n,
+      amount0: 99n,
+      amount1: 200n,
+      eventAmount0: 99n,
+      eventAmount1: 200n,
+      hasWithdrawEvent: true
+    });
+
+    const result = await manager.withdraw({ vaultAddress: vault, shares: 10n, amount0Min: 0n, amount1Min: 0n, recipient, useNative: true });
+
+    expect(nativeCurrency.unwrap).toHaveBeenCalledWith(99n, user);
+    expect(nativeCurrency.sendToken).not.toHaveBeenCalled();
+    expect(result).toMatchObject({
+      success: false,
+      transactionHash: '0xwithdraw',
+      token0Received: 99n,
+      token1Received: 200n,
+      token0Difference: -1n,
+      unwrapTransactionHash: '0xunwrap',
+      payoutError: `insufficient funds for gas; unpaid tokens remain with ${user}`
+    });
+    expect(result.error).toContain('Withdrawal 0xwithdraw landed but the native payout failed');
+  });
+
+  it('refuses a single-token withdrawal from a vault that is not on Uniswap V3 before withdrawing', async () => {
+    const pool: Address = '0x6666666666666666666666666666666666666666';
+    const manager = new SmartPoolWithdrawalManager({ chain: { id: 43114 } }, { chain: { id: 43114 }, account: { address: user } });
+    jest.spyOn(manager, 'getVaultInfo').mockResolvedValue({
+      address: vault,
+      chainId: 43114,
+      name: 'WAVAX-USDC',
+      decimals: 18,
+      pool,
+      token0: { address: '0x2222222222222222222222222222222222222222', symbol: 'WAVAX', name: 'Wrapped AVAX', decimals: 18 },
+      token1: { address: '0x3333333333333333333333333333333333333333', symbol: 'USDC', name: 'USD Coin', decimals: 6 }
+    });
+    const isUniswapV3Pool = jest.spyOn((manager as any).poolSwapper, 'isUniswapV3Pool').mockResolvedValue(false);
+    const calculateOptimalWithdrawAmounts = jest.spyOn(manager, 'calculateOptimalWithdrawAmounts');
+    const executeWithdrawal = jest.spyOn(manager, 'executeWithdrawal');
+
+    const result = await manager.withdrawToSingleToken(vault, 1n, '0x3333333333333333333333333333333333333333', 0.005);
+
+    expect(result).toEqual({
+      success: false,
+      unsupportedProtocol: true,
+      error: 'Unsupported protocol: WAVAX-USDC is not on a Uniswap V3 pool, and single-token withdrawals only swap through Uniswap V3'
+    });
+    expect(isUniswapV3Pool).toHaveBeenCalledWith(pool);
+    expect(calculateOptimalWithdrawAmounts).not.toHaveBeenCalled();
+    expect(executeWithdrawal).not.toHaveBeenCalled();
+  });
+
+  describe('withdrawBatch', () => {
+    const other: Address = '0x5555555555555555555555555555555555555555';
+    const params = { vaultAddress: vault, shares: 1n, amount0Min: 0n, amount1Min: 0n };
+
+    function createManager() {
+      const publicClient = {
+        chain: { id: 43114 },
+        getTransactionCount: jest.fn(async () => 3),
+        waitForTransactionReceipt: jest.fn(async () => ({ status: 'success', logs: [] }))
+      };
+      const walletClient = { chain: { id: 43114 }, account: { address: user } as { address: Address } | undefined, getAddresses: jest.fn() };
+      const manager = new SmartPoolWithdrawalManager(publicClient, walletClient);
+      jest.spyOn(manager, 'getVaultInfo').mockResolvedValue({
+        address: vault,
+        chainId: 43114,
+        name: 'WAVAX-USDC',
+        decimals: 18,
+        token0: { address: '0x2222222222222222222222222222222222222222', symbol: 'WAVAX', name: 'Wrapped AVAX', decimals: 18 },
+        token1: { address: '0x3333333333333333333333333333333333333333', symbol: 'USDC', name: 'USD Coin', decimals: 6 }
+      });
+      jest.spyOn(manager, 'getLpTokenBalance').mockResolvedValue(10n as never);
+      jest.spyOn(manager, 'calculateOptimalWithdrawAmounts').mockResolvedValue({ amount0: 1n, amount1: 1n });
+      jest.spyOn(manager, 'prepareWithdrawTx').mockResolvedValue({ success: true, data: {} } as never);
+      const executeWithdrawal = jest.spyOn(manager, 'executeWithdrawal').mockResolvedValue('0xwithdraw');
+      return { manager, publicClient, walletClient, executeWithdrawal };
+    }
+
+    it('fails an item that names another account', async () => {
+      const { manager, executeWithdrawal } = createManager();
+
+      const { results, succeeded } = await manager.withdrawBatch([{ ...params, account: other }, params]);
+
+      expect(succeeded).toBe(1);
+      expect(results[0]).toEqual({ success: false, error: `Batch withdrawals are signed by ${user}, not ${other}` });
+      expect(executeWithdrawal).toHaveBeenCalledTimes(1);
+    });
+
+    it('fails every item when the account cannot be resolved', async () => {
+      const { manager, walletClient, executeWithdrawal } = createManager();
+      walletClient.account = undefined;
+      walletClient.getAddresses.mockRejectedValue(new Error('wallet locked'));
+
+      const result = await manager.withdrawBatch([params, params]);
+
+      expect(result).toEqual({
+        results: [{ success: false, error: 'wallet locked' }, { success: false, error: 'wallet locked' }],
+        succeeded: 0,
+        failed: 2
+      });
+      expect(executeWithdrawal).not.toHaveBeenCalled();
+    });
+
+    it('fails the item whose nonce cannot be read and submits the rest', async () => {
+      const { manager, publicClient, executeWithdrawal } = createManager();
+      publicClient.getTransactionCount.mockRejectedValueOnce(new Error('RPC timeout'));
+
+      const { results, succeeded } = await manager.withdrawBatch([params, params]);
+
+      expect(results[0]).toEqual({ success: false, error: 'RPC timeout' });
+      expect(succeeded).toBe(1);
+      expect(executeWithdrawal).toHaveBeenCalledWith({}, user, 3);
+    });
+  });
+});
@@ -6,15 +6,34 @@
  */
 
 import { SteerClient } from '@steerprotocol/sdk';
-import { Address, erc20Abi, formatUnits, parseUnits } from 'viem';
+import { Address, erc20Abi, formatUnits, isAddressEqual } from 'viem';
+import { VaultMetadataResolver, type TokenInfo, type VaultInfo } from '../vault-metadata';
+import { VaultReceiptDecoder } from '../vault-receipts';
+import { PoolSwapper } from '../pool-swap';
+import { NativeCurrencyHelper } from '../native-currency';
+import { GasEstimator, type GasEstimationResult, type GasEstimatorOptions } from '../gas-estimator';
+import { TxSimulator, type SimulationResult } from '../tx-simulator';
+import { NonceManager } from '../nonce-manager';
+import { TxGuard } from '../tx-guards';
+import { AmountMath } from '../amount';
+import { ValidationError } from '../steer-types';
 
 // Type definitions for the withdrawal process
 interface WithdrawalParams {
   vaultAddress: string;
   shares: bigint;
-  amount0Min: bigint;
-  amount1Min: bigint;
+  // Account holding the shares; defaults to the wallet's first account
+  account?: Address;
+  // Slippage tolerance used to derive minimums from the withdrawal preview (e.g. 0.005)
+  slippage?: number;
+  // Raw minimums; when set they take precedence over `slippage`
+  amount0Min?: bigint;
+  amount1Min?: bigint;
   recipient?: Address;
+  // Expected chain; defaults to the public client's chain
+  chainId?: number;
+  // Unwrap the vault's wrapped-native side into native currency before payout
+  useNative?: boolean;
 }
 
 interface TokenAmountsResponse {
@@ -27,9 +46,67 @@ interface WithdrawalResult {
   transactionHash?: string;
   token0Received?: bigint;
   token1Received?: bigint;
+  token0Expected?: bigint;
+  token1Expected?: bigint;
+  // Received minus previewed amount; negative values are slippage against the user
+  token0Difference?: bigint;
+  token1Difference?: bigint;
+  unwrapTransactionHash?: string;
+  // Set when the withdrawal landed but unwrapping or forwarding the native payout failed
+  payoutError?: string;
   error?: string;
 }
 
+// Outcome of unwrapping and forwarding a native payout
+interface NativePayoutResult {
+  unwrapTransactionHash?: string;
+  error?: string;
+}
+
+interface BatchWithdrawalResult {
+  // Per-item results, in input order
+  results: WithdrawalResult[];
+  succeeded: number;
+  failed: number;
+}
+
+// Withdrawal outcome for one account of a multi-account run
+interface AccountWithdrawalResult {
+  account: Address;
+  // Share balance read when the withdrawal ran
+  shares: bigint;
+  // Null when the account held no shares and was skipped
+  result: WithdrawalResult | null;
+}
+
+// Returns the USD price of one whole token, or null when unknown
+type TokenPriceSource = (token: TokenInfo, chainId: number) => Promise<number | null>;
+
+// Quote for a withdrawal, computed before anything is signed
+interface WithdrawalPreview {
+  vault: VaultInfo;
+  shares: bigint;
+  amount0Expected: bigint;
+  amount1Expected: bigint;
+  // Minimum amounts derived from `slippage`
+  amount0Min: bigint;
+  amount1Min: bigint;
+  // Fraction of the vault's supply being redeemed
+  shareOfVault: number;
+  // Value of the expected amounts, when a price source is given and both tokens are priced
+  valueUsd?: number;
+}
+
+interface SingleTokenWithdrawalResult extends WithdrawalResult {
+  // Set when the vault's pool is not a Uniswap V3 pool; nothing was withdrawn or swapped
+  unsupportedProtocol?: boolean;
+  tokenOut?: string;
+  amountOut?: bigint;
+  minimumAmountOut?: bigint;
+  swapTransactionHash?: string;
+  amountSwapped?: bigint;
+}
+
 /**
  * Smart Pool Withdrawal Manager
  * 
@@ -40,12 +117,20 @@ export class SmartPoolWithdrawalManager {
 
 
   private steerClient: SteerClient;
+  private vaultResolver: VaultMetadataResolver;
+  private poolSwapper: PoolSwapper;
+  private nativeCurrency: NativeCurrencyHelper;
+  private txGuard: TxGuard;
   private publicClient: any;
   private walletClient: any;
 
   constructor(publicClient: any, walletClient: any, environment: 'development' | 'production' = 'production') {
     this.publicClient = publicClient;
     this.walletClient = walletClient;
+    this.vaultResolver = new VaultMetadataResolver(publicClient);
+    this.poolSwapper = new PoolSwapper(publicClient, walletClient);
+    this.nativeCurrency = new NativeCurrencyHelper(publicClient, walletClient);
+    this.txGuard = new TxGuard(publicClient, walletClient);
     
     this.steerClient = new SteerClient({
       environment,
@@ -55,6 +140,18 @@ export class SmartPoolWithdrawalManager {
   }
 
 
+  /**
+   * Get vault information and token details
+   */
+  async getVaultInfo(vaultAddress: string): Promise<VaultInfo | null> {
+    try {
+      return await this.vaultResolver.resolve(vaultAddress);
+    } catch (error) {
+      console.error('Failed to get vault info:', error);
+      return null;
+    }
+  }
+
   /**
    * Check LP token balance for an address
    */
@@ -72,6 +169,68 @@ export class SmartPoolWithdrawalManager {
 
 
 
+  /**
+   * Preview a withdrawal: expected and minimum amounts, share of the vault and USD value
+   */
+  async previewWithdraw(
+    vaultAddress: string,
+    shares: bigint,
+    slippage: number,
+    priceSource?: TokenPriceSource
+  ): Promise<WithdrawalPreview | null> {
+    try {
+      const vaultInfo = await this.getVaultInfo(vaultAddress);
+      if (!vaultInfo) {
+        throw new Error('Vault not found or invalid');
+      }
+
+      const [expected, totals] = await Promise.all([
+        this.calculateOptimalWithdrawAmounts(vaultAddress, shares),
+        this.vaultResolver.getTotals(vaultAddress)
+      ]);
+      if (!expected) {
+        throw new Error('Failed to calculate expected withdrawal amounts');
+      }
+
+      const { amount0Min, amount1Min } = WithdrawalUtils.calculateMinimumAmounts(
+        expected.amount0,
+        expected.amount1,
+        slippage
+      );
+
+      const preview: WithdrawalPreview = {
+        vault: vaultInfo,
+        shares,
+        amount0Expected: expected.amount0,
+        amount1Expected: expected.amount1,
+        amount0Min,
+        amount1Min,
+        shareOfVault: totals.totalSupply > 0n ? Number((shares * 1_000_000n) / totals.totalSupply) / 1_000_000 : 0
+      };
+
+      if (priceSource) {
+        try {
+          const [price0, price1] = await Promise.all([
+            priceSource(vaultInfo.token0, vaultInfo.chainId),
+            priceSource(vaultInfo.token1, vaultInfo.chainId)
+          ]);
+          if (price0 !== null && price1 !== null) {
+            preview.valueUsd =
+              Number(formatUnits(expected.amount0, vaultInfo.token0.decimals)) * price0 +
+              Number(formatUnits(expected.amount1, vaultInfo.token1.decimals)) * price1;
+          }
+        } catch (error) {
+          console.warn('⚠️  Failed to price withdrawal in USD:', error);
+        }
+      }
+
+      return preview;
+    } catch (error) {
+      console.error('Failed to preview withdrawal:', error);
+      return null;
+    }
+  }
+
   getLpTokenBalance(vaultAddress: string, userAddress: string) {
 
     return this.publicClient.readContract({
@@ -87,14 +246,21 @@ export class SmartPoolWithdrawalManager {
    */
   async prepareWithdrawTx(params: WithdrawalParams) {
     try {
-      // Mock transaction preparation for demonstration
-      // In a real implementation, this would use the actual SDK methods
+      // Validate the recipient (defaulting to the signer), chain and vault code before preparing
+      const { recipient } = await this.txGuard.check({
+        account: params.account,
+        recipient: params.recipient,
+        chainId: params.chainId,
+        contracts: [params.vaultAddress]
+      });
+
+      const { amount0Min, amount1Min } = await this.resolveMinimumAmounts(params);
       const preparedTx = await this.steerClient.vaults.prepareWithdrawTx({
         vaultAddress: params.vaultAddress as `0x${string}`,
         shares: params.shares,
-        amount0Min: params.amount0Min,
-        amount1Min: params.amount1Min,
-        to: params.recipient || '0x0000000000000000000000000000000000000000'
+        amount0Min,
+        amount1Min,
+        to: recipient
       });
       return preparedTx;
     } catch (error) {
@@ -103,16 +269,75 @@ export class SmartPoolWithdrawalManager {
     }
   }
 
+  /**
+   * Minimum amounts for a withdrawal: raw minimums when given, otherwise derived from `slippage`
+   */
+  private async resolveMinimumAmounts(
+    params: WithdrawalParams,
+    expected?: { amount0: bigint; amount1: bigint } | null
+  ): Promise<{ amount0Min: bigint; amount1Min: bigint }> {
+    if (params.amount0Min !== undefined && params.amount1Min !== undefined) {
+      return { amount0Min: params.amount0Min, amount1Min: params.amount1Min };
+    }
+    if (params.slippage === undefined) {
+      throw new ValidationError('Either slippage or both amount0Min and amount1Min are required', 'slippage');
+    }
+
+    const amounts = expected ?? await this.calculateOptimalWithdrawAmounts(params.vaultAddress, params.shares);
+    if (!amounts) {
+      throw new Error('Failed to calculate expected withdrawal amounts');
+    }
+
+    const derived = WithdrawalUtils.calculateMinimumAmounts(amounts.amount0, amounts.amount1, params.slippage);
+    return {
+      amount0Min: params.amount0Min ?? derived.amount0Min,
+      amount1Min: params.amount1Min ?? derived.amount1Min
+    };
+  }
+
+  /**
+   * Estimate gas for a prepared withdrawal transaction
+   */
+  async estimateGasForPreparedTx(
+    preparedTx: any,
+    userAddress: Address,
+    options: GasEstimatorOptions = {}
+  ): Promise<GasEstimationResult> {
+    console.log('🔍 Estimating gas for prepared withdrawal transaction...');
+
+    const estimation = await new GasEstimator(this.publicClient, options).estimate(preparedTx, userAddress);
+    if (estimation.gasEstimate === null) {
+      console.error('❌ Gas estimation failed:', estimation.error);
+    } else {
+      console.log(`✅ Gas estimation successful: ${estimation.gasEstimate.toString()} gas units (~${estimation.gasCostInNative} ${estimation.nativeSymbol})`);
+    }
+
+    return estimation;
+  }
+
+  /**
+   * Simulate a prepared withdrawal transaction and decode any revert
+   */
+  async simulate(preparedTx: any, account: Address): Promise<SimulationResult> {
+    const simulation = await new TxSimulator(this.publicClient).simulate(preparedTx, account);
+    if (!simulation.success) {
+      console.warn(`⚠️  Withdrawal simulation failed: ${simulation.revert?.reason ?? simulation.error}`);
+    }
+    return simulation;
+  }
+
   /**
    * Execute withdrawal transaction
    */
-  async executeWithdrawal(preparedTx: any): Promise<string | null> {
+  async executeWithdrawal(preparedTx: any, account?: Address, nonce?: number): Promise<string | null> {
     try {
       const hash = await this.walletClient.writeContract({
+        account,
         address: preparedTx.address,
         abi: preparedTx.abi,
         functionName: preparedTx.functionName,
-        args: preparedTx.args
+        args: preparedTx.args,
+        nonce
       });
 
       return hash;
@@ -129,72 +354,133 @@ export class SmartPoolWithdrawalManager {
     try {
       console.log('🚀 Starting Smart Pool withdrawal process...');
 
+      // Native payouts are forwarded to the recipient after the vault call, so
+      // validate it before anything is built
+      if (params.recipient !== undefined) {
+        TxGuard.assertRecipient(params.recipient);
+      }
+
       // 1. Get vault information
-      console.log(`🪙 Withdrawing ${formatUnits(params.shares, 18)} LP tokens`);
+      const vaultInfo = await this.getVaultInfo(params.vaultAddress);
+      if (!vaultInfo) {
+        throw new Error('Vault not found or invalid');
+      }
 
-      // 2. Get user address
-      const userAddress = await this.walletClient.getAddresses();
-      const userAddr = userAddress[0];
+      console.log(`📊 Vault: ${vaultInfo.name}`);
+      console.log(`🪙 Withdrawing ${formatUnits(params.shares, vaultInfo.decimals)} LP tokens`);
 
-      // 3. Check LP token balance
-      const lpBalance = await this.getLpTokenBalance(params.vaultAddress, userAddr);
-      if (lpBalance < params.shares) {
-        throw new Error(`Insufficient LP token balance. Available: ${formatUnits(lpBalance, 18)}, Required: ${formatUnits(params.shares, 18)}`);
+      let nativeIsToken0 = false;
+      if (params.useNative) {
+        nativeIsToken0 = await this.nativeCurrency.isWrappedNative(vaultInfo.token0.address);
+        if (!nativeIsToken0 && !(await this.nativeCurrency.isWrappedNative(vaultInfo.token1.address))) {
+          throw new ValidationError(`${vaultInfo.name} has no wrapped native token`, 'useNative');
+        }
       }
 
-      console.log(`✅ LP token balance sufficient: ${formatUnits(lpBalance, 18)}`);
+      // 2. Resolve the account holding the shares
+      const userAddr = await this.txGuard.resolveAccount(params.account);
 
-      // 4. Check for locked/vested shares
-      if (BigInt(lpBalance) < params.shares) {
-        throw new Error(`Insufficient available shares. Available: ${formatUnits(lpBalance, 18)}, Required: ${formatUnits(params.shares, 18)},`);
+      // Native payouts are withdrawn to the signer first so the wrapped side can be unwrapped
+      const vaultRecipient = params.useNative ? userAddr : params.recipient;
+
+      // 3. Check LP token balance
+      const lpBalance = await this.getLpTokenBalance(params.vaultAddress, userAddr);
+      if (lpBalance < params.shares) {
+        throw new Error(`Insufficient LP token balance. Available: ${formatUnits(lpBalance, vaultInfo.decimals)}, Required: ${formatUnits(params.shares, vaultInfo.decimals)}`);
       }
 
-      console.log(`✅ Available shares: ${formatUnits(lpBalance, 18)}`);
+      console.log(`✅ LP token balance sufficient: ${formatUnits(lpBalance, vaultInfo.decimals)}`);
 
-      // 5. Calculate expected token amounts (for display purposes)
+      // 4. Calculate expected token amounts (for display purposes)
       const expectedTokenAmounts = await this.calculateOptimalWithdrawAmounts(params.vaultAddress, params.shares);
       if (expectedTokenAmounts) {
         console.log(`📈 Expected token amounts:`);
-        console.log(`  WAVAX: ${formatUnits(expectedTokenAmounts.amount0, 18)}`);
-        console.log(`  USDC: ${formatUnits(expectedTokenAmounts.amount1, 6)}`);
+        console.log(`  ${vaultInfo.token0.symbol}: ${formatUnits(expectedTokenAmounts.amount0, vaultInfo.token0.decimals)}`);
+        console.log(`  ${vaultInfo.token1.symbol}: ${formatUnits(expectedTokenAmounts.amount1, vaultInfo.token1.decimals)}`);
       }
 
-      // 6. Prepare withdrawal transaction
+      // 5. Prepare withdrawal transaction
+      const { amount0Min, amount1Min } = await this.resolveMinimumAmounts(params, expectedTokenAmounts);
+      console.log(`🛡️  Minimums: ${formatUnits(amount0Min, vaultInfo.token0.decimals)} ${vaultInfo.token0.symbol}, ${formatUnits(amount1Min, vaultInfo.token1.decimals)} ${vaultInfo.token1.symbol}`);
+
       console.log('⚙️  Preparing withdrawal transaction...');
-      const preparedTx = await this.prepareWithdrawTx(params);
+      const preparedTx = await this.prepareWithdrawTx({ ...params, account: userAddr, amount0Min, amount1Min, recipient: vaultRecipient });
+      if (!preparedTx || !preparedTx.success || !preparedTx.data) {
+        throw new Error('Failed to prepare withdrawal transaction');
+      }
 
-      // 7. Execute withdrawal
+      // 6. Execute withdrawal
       console.log('💸 Executing withdrawal...');
-      const withdrawalHash = await this.executeWithdrawal(preparedTx);
+      const withdrawalHash = await this.executeWithdrawal(preparedTx.data, userAddr);
       if (!withdrawalHash) {
         throw new Error('Failed to execute withdrawal transaction');
       }
 
       console.log(`✅ Withdrawal successful: ${withdrawalHash}`);
 
-      // 8. Wait for confirmation and get receipt
+      // 7. Wait for confirmation and get receipt
       const receipt = await this.publicClient.waitForTransactionReceipt({ 
         hash: withdrawalHash 
       });
 
-      // Extract actual token amounts received from transaction logs
-      let token0Received: bigint | undefined;
-      let token1Received: bigint | undefined;
-      
-      if (receipt.logs && receipt.logs.length > 0) {
-        // This would parse the actual transfer events to get received amounts
-        // Implementation depends on the specific vault contract
-        token0Received = expectedTokenAmounts?.amount0 || 0n;
-        token1Received = expectedTokenAmounts?.amount1 || 0n;
+      if (receipt.status !== 'success') {
+        throw new Error(`Withdrawal transaction reverted: ${withdrawalHash}`);
       }
 
-      return {
-        success: true,
+      // Decode the token amounts that actually reached the recipient
+      const decoded = VaultReceiptDecoder.decodeWithdrawal(
+        receipt,
+        params.vaultAddress as Address,
+        vaultInfo.token0.address as Address,
+        vaultInfo.token1.address as Address,
+        vaultRecipient || userAddr
+      );
+      if (!decoded.hasWithdrawEvent) {
+        console.warn('⚠️  No vault Withdraw event found in receipt');
+      }
+
+      const token0Difference = expectedTokenAmounts ? decoded.amount0 - expectedTokenAmounts.amount0 : undefined;
+      const token1Difference = expectedTokenAmounts ? decoded.amount1 - expectedTokenAmounts.amount1 : undefined;
+
+      console.log(`📥 Received:`);
+      console.log(`  ${vaultInfo.token0.symbol}: ${formatUnits(decoded.amount0, vaultInfo.token0.decimals)}${token0Difference !== undefined ? ` (Δ ${formatUnits(token0Difference, vaultInfo.token0.decimals)})` : ''}`);
+      console.log(`  ${vaultInfo.token1.symbol}: ${formatUnits(decoded.amount1, vaultInfo.token1.decimals)}${token1Difference !== undefined ? ` (Δ ${formatUnits(token1Difference, vaultInfo.token1.decimals)})` : ''}`);
+
+      const withdrawal = {
         transactionHash: withdrawalHash,
-        token0Received,
-        token1Received
+        token0Received: decoded.amount0,
+        token1Received: decoded.amount1,
+        token0Expected: expectedTokenAmounts?.amount0,
+        token1Expected: expectedTokenAmounts?.amount1,
+        token0Difference,
+        token1Difference
       };
 
+      // Unwrap the wrapped-native side and forward the payout when requested.
+      // The withdrawal has landed by now, so a payout failure is returned with it
+      if (params.useNative) {
+        const payout = await this.payoutNative(
+          vaultInfo,
+          nativeIsToken0,
+          decoded.amount0,
+          decoded.amount1,
+          userAddr,
+          params.recipient || userAddr
+        );
+        if (payout.error) {
+          return {
+            success: false,
+            ...withdrawal,
+            unwrapTransactionHash: payout.unwrapTransactionHash,
+            payoutError: payout.error,
+            error: `Withdrawal ${withdrawalHash} landed but the native payout failed: ${payout.error}`
+          };
+        }
+        return { success: true, ...withdrawal, unwrapTransactionHash: payout.unwrapTransactionHash };
+      }
+
+      return { success: true, ...withdrawal };
+
     } catch (error) {
       console.error('❌ Withdrawal failed:', error);
       return {
@@ -204,6 +490,414 @@ export class SmartPoolWithdrawalManager {
     }
   }
 
+  /**
+   * Withdraw from several vaults in one run
+   *
+   * Share balances are checked against the combined shares per vault, and the
+   * withdrawals are then submitted back to back with sequential nonces. A
+   * failing item is reported in its own result and does not stop the others.
+   * Every withdrawal is made by `account`; an item naming a different account
+   * fails, and when the account cannot be resolved every item fails. Native
+   * payouts are not supported in batches.
+   */
+  async withdrawBatch(paramsList: WithdrawalParams[], account?: Address): Promise<BatchWithdrawalResult> {
+    console.log(`🚀 Starting batch withdrawal from ${paramsList.length} vaults...`);
+
+    const results: WithdrawalResult[] = paramsList.map(() => ({ success: false }));
+    const fail = (index: number, error: unknown) => {
+      console.error(`❌ Batch withdrawal ${index} failed:`, error);
+      results[index] = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    };
+
+    let userAddr: Address;
+    try {
+      userAddr = await this.txGuard.resolveAccount(account);
+    } catch (error) {
+      paramsList.forEach((_, index) => fail(index, error));
+      return { results, succeeded: 0, failed: paramsList.length };
+    }
+
+    // 1. Validate share balances against the running total and prepare every withdrawal
+    const committed = new Map<string, bigint>();
+    const prepared: {
+      index: number;
+      params: WithdrawalParams;
+      vaultInfo: VaultInfo;
+      call: any;
+      expected: { amount0: bigint; amount1: bigint } | null;
+    }[] = [];
+    for (const [index, params] of paramsList.entries()) {
+      try {
+        if (params.useNative) {
+          throw new ValidationError('Native payouts are not supported in batches', 'useNative');
+        }
+        if (params.account !== undefined && !isAddressEqual(await this.txGuard.resolveAccount(params.account), userAddr)) {
+          throw new ValidationError(`Batch withdrawals are signed by ${userAddr}, not ${params.account}`, 'account');
+        }
+
+        const vaultInfo = await this.getVaultInfo(params.vaultAddress);
+        if (!vaultInfo) {
+          throw new Error('Vault not found or invalid');
+        }
+
+        const key = params.vaultAddress.toLowerCase();
+        const lpBalance: bigint = await this.getLpTokenBalance(params.vaultAddress, userAddr);
+        const alreadyCommitted = committed.get(key) ?? 0n;
+        if (lpBalance - alreadyCommitted < params.shares) {
+          throw new Error(`Insufficient LP token balance for ${vaultInfo.name}`);
+        }
+
+        const expected = await this.calculateOptimalWithdrawAmounts(params.vaultAddress, params.shares);
+        const { amount0Min, amount1Min } = await this.resolveMinimumAmounts(params, expected);
+        const preparedTx = await this.prepareWithdrawTx({
+          ...params,
+          account: userAddr,
+          amount0Min,
+          amount1Min,
+          recipient: params.recipient || userAddr
+        });
+        if (!preparedTx || !preparedTx.success || !preparedTx.data) {
+          throw new Error('Failed to prepare withdrawal transaction');
+        }
+
+        committed.set(key, alreadyCommitted + params.shares);
+        prepared.push({ index, params, vaultInfo, call: preparedTx.data, expected });
+      } catch (error) {
+        fail(index, error);
+      }
+    }
+
+    // 2. Submit the withdrawals back to back with managed nonces
+    const nonces = new NonceManager(this.publicClient, userAddr);
+    const submitted: { item: typeof prepared[number]; hash: string }[] = [];
+    for (const item of prepared) {
+      let nonce: number;
+      try {
+        nonce = await nonces.peek();
+      } catch (error) {
+        fail(item.index, error);
+        continue;
+      }
+      console.log(`💸 Submitting withdrawal from ${item.vaultInfo.name} (nonce ${nonce})...`);
+      const hash = await this.executeWithdrawal(item.call, userAddr, nonce);
+      if (!hash) {
+        nonces.reset();
+        fail(item.index, new Error('Failed to execute withdrawal transaction'));
+        continue;
+      }
+      nonces.advance();
+      submitted.push({ item, hash });
+    }
+
+    // 3. Wait for every withdrawal and decode the tokens received
+    await Promise.all(submitted.map(async ({ item, hash }) => {
+      try {
+        const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+        if (receipt.status !== 'success') {
+          throw new Error(`Withdrawal transaction reverted: ${hash}`);
+        }
+
+        const decoded = VaultReceiptDecoder.decodeWithdrawal(
+          receipt,
+          item.params.vaultAddress as Address,
+          item.vaultInfo.token0.address as Address,
+          item.vaultInfo.token1.address as Address,
+          item.params.recipient || userAddr
+        );
+        console.log(`✅ ${item.vaultInfo.name}: ${formatUnits(decoded.amount0, item.vaultInfo.token0.decimals)} ${item.vaultInfo.token0.symbol}, ${formatUnits(decoded.amount1, item.vaultInfo.token1.decimals)} ${item.vaultInfo.token1.symbol}`);
+
+        results[item.index] = {
+          success: true,
+          transactionHash: hash,
+          token0Received: decoded.amount0,
+          token1Received: decoded.amount1,
+          token0Expected: item.expected?.amount0,
+          token1Expected: item.expected?.amount1,
+          token0Difference: item.expected ? decoded.amount0 - item.expected.amount0 : undefined,
+          token1Difference: item.expected ? decoded.amount1 - item.expected.amount1 : undefined
+        };
+      } catch (error) {
+        fail(item.index, error);
+        results[item.index].transactionHash = hash;
+      }
+    }));
+
+    const succeeded = results.filter(result => result.success).length;
+    console.log(`📦 Batch withdrawal complete: ${succeeded}/${paramsList.length} succeeded`);
+
+    return { results, succeeded, failed: paramsList.length - succeeded };
+  }
+
+  /**
+   * Withdraw a percentage of the signer's vault shares, in basis points
+   *
+   * The share balance is read when the withdrawal runs, and 10000 bps redeems
+   * the exact balance so no rounding dust is left behind.
+   */
+  async withdrawPercent(
+    vaultAddress: string,
+    bps: number,
+    slippage: number,
+    options: Pick<WithdrawalParams, 'account' | 'recipient' | 'useNative'> = {}
+  ): Promise<WithdrawalResult> {
+    try {
+      if (!Number.isInteger(bps) || bps <= 0 || bps > 10_000) {
+        throw new ValidationError('Withdrawal percentage must be an integer between 1 and 10000 bps', 'bps');
+      }
+
+      const account = await this.txGuard.resolveAccount(options.account);
+      const balance: bigint = await this.getLpTokenBalance(vaultAddress, account);
+      const shares = bps === 10_000 ? balance : (balance * BigInt(bps)) / 10_000n;
+      if (shares === 0n) {
+        throw new Error('No LP tokens to withdraw');
+      }
+
+      console.log(`📤 Withdrawing ${bps / 100}% of LP balance`);
+      return await this.withdraw({ ...options, account, vaultAddress, shares, slippage });
+    } catch (error) {
+      console.error('❌ Withdrawal failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Withdraw the signer's entire vault share balance
+   */
+  async withdrawAll(
+    vaultAddress: string,
+    slippage: number,
+    options: Pick<WithdrawalParams, 'account' | 'recipient' | 'useNative'> = {}
+  ): Promise<WithdrawalResult> {
+    return this.withdrawPercent(vaultAddress, 10_000, slippage, options);
+  }
+
+  /**
+   * Withdraw the full share balance of every account that holds shares in a vault
+   *
+   * Defaults to every account the wallet client exposes. Accounts without
+   * shares are skipped, and each account's payout goes to that account
+   * unless `recipient` is set.
+   */
+  async withdrawAllFromAccounts(
+    vaultAddress: string,
+    slippage: number,
+    accounts?: Address[],
+    options: Pick<WithdrawalParams, 'recipient' | 'useNative'> = {}
+  ): Promise<AccountWithdrawalResult[]> {
+    const targets: Address[] = accounts ?? await this.walletClient.getAddresses();
+    const results: AccountWithdrawalResult[] = [];
+
+    for (const account of targets) {
+      const shares: bigint = await this.getLpTokenBalance(vaultAddress, account);
+      if (shares === 0n) {
+        results.push({ account, shares, result: null });
+        continue;
+      }
+
+      console.log(`👤 Withdrawing all shares for ${account}...`);
+      const result = await this.withdraw({ ...options, account, vaultAddress, shares, slippage });
+      results.push({ account, shares, result });
+    }
+
+    const withdrawn = results.filter(entry => entry.result?.success).length;
+    console.log(`📦 Multi-account withdrawal complete: ${withdrawn}/${results.filter(entry => entry.result).length} accounts withdrawn`);
+    return results;
+  }
+
+  /**
+   * Unwrap the wrapped-native side of a withdrawal and pay out to the recipient
+   *
+   * Tokens arrive at the signer; when the recipient is another address the
+   * native currency and the other token are forwarded after unwrapping.
+   * Failures are returned rather than thrown, with the unwrap hash when the
+   * unwrap itself went through; whatever was not paid out stays with the signer.
+   */
+  private async payoutNative(
+    vaultInfo: VaultInfo,
+    nativeIsToken0: boolean,
+    amount0: bigint,
+    amount1: bigint,
+    signer: Address,
+    recipient: Address
+  ): Promise<NativePayoutResult> {
+    const [nativeToken, nativeAmount, otherToken, otherAmount] = nativeIsToken0
+      ? [vaultInfo.token0, amount0, vaultInfo.token1, amount1]
+      : [vaultInfo.token1, amount1, vaultInfo.token0, amount0];
+
+    let unwrapHash: string | undefined;
+    try {
+      if (nativeAmount > 0n) {
+        console.log(`🎁 Unwrapping ${formatUnits(nativeAmount, nativeToken.decimals)} ${nativeToken.symbol}...`);
+        unwrapHash = await this.nativeCurrency.unwrap(nativeAmount, signer);
+        console.log(`✅ Unwrapped: ${unwrapHash}`);
+      }
+
+      if (!isAddressEqual(recipient, signer)) {
+        console.log(`📤 Forwarding payout to ${recipient}...`);
+        if (nativeAmount > 0n) {
+          await this.nativeCurrency.sendNative(recipient, nativeAmount, signer);
+        }
+        if (otherAmount > 0n) {
+          await this.nativeCurrency.sendToken(otherToken.address as Address, recipient, otherAmount, signer);
+        }
+      }
+
+      return { unwrapTransactionHash: unwrapHash };
+    } catch (error) {
+      console.error('❌ Native payout failed:', error);
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      return { unwrapTransactionHash: unwrapHash, error: `${reason}; unpaid tokens remain with ${signer}` };
+    }
+  }
+
+  /**
+   * Withdraw and swap the unwanted side into a single output token
+   *
+   * The minimum output covers both steps: the withdrawal minimums protect the
+   * burn, and the swap minimum is whatever is still missing from the combined
+   * minimum after the kept token has arrived.
+   *
+   * Only vaults on Uniswap V3 pools are supported, since the swap goes through
+   * the chain's Uniswap V3 router. Vaults on other DEXes (Algebra, Blackhole,
+   * ...) are refused up front with `unsupportedProtocol` set.
+   */
+  async withdrawToSingleToken(
+    vaultAddress: string,
+    shares: bigint,
+    tokenOut: Address,
+    slippage: number,
+    account?: Address
+  ): Promise<SingleTokenWithdrawalResult> {
+    try {
+      console.log('🚀 Starting Smart Pool single-token withdrawal...');
+
+      // 1. Resolve vault tokens and direction
+      const vaultInfo = await this.getVaultInfo(vaultAddress);
+      if (!vaultInfo) {
+        throw new Error('Vault not found or invalid');
+      }
+      if (!vaultInfo.pool) {
+        throw new Error('Vault does not expose its underlying pool');
+      }
+      if (!(await this.poolSwapper.isUniswapV3Pool(vaultInfo.pool as Address))) {
+        console.error(`❌ ${vaultInfo.name} is not on a Uniswap V3 pool`);
+        return {
+          success: false,
+          unsupportedProtocol: true,
+          error: `Unsupported protocol: ${vaultInfo.name} is not on a Uniswap V3 pool, and single-token withdrawals only swap through Uniswap V3`
+        };
+      }
+
+      const outIsToken0 = isAddressEqual(tokenOut, vaultInfo.token0.address as Address);
+      if (!outIsToken0 && !isAddressEqual(tokenOut, vaultInfo.token1.address as Address)) {
+        throw new ValidationError(`Token ${tokenOut} is not part of ${vaultInfo.name}`, 'tokenOut');
+      }
+
+      const [keepToken, swapToken] = outIsToken0
+        ? [vaultInfo.token0, vaultInfo.token1]
+        : [vaultInfo.token1, vaultInfo.token0];
+
+      const userAddr = await this.txGuard.resolveAccount(account);
+
+      // 2. Preview both legs to derive the combined minimum
+      const expected = await this.calculateOptimalWithdrawAmounts(vaultAddress, shares);
+      if (!expected) {
+        throw new Error('Failed to preview withdrawal amounts');
+      }
+
+      const poolState = await this.poolSwapper.getPoolState(vaultInfo.pool as Address);
+      const [expectedKeep, expectedSwapIn] = outIsToken0
+        ? [expected.amount0, expected.amount1]
+        : [expected.amount1, expected.amount0];
+      const quotedOut = await this.poolSwapper.quoteExactInput(
+        swapToken.address as Address,
+        keepToken.address as Address,
+        poolState.fee,
+        expectedSwapIn
+      );
+
+      const minimumAmountOut = AmountMath.applySlippage(expectedKeep + quotedOut, AmountMath.slippageToBps(slippage));
+      const { amount0Min, amount1Min } = WithdrawalUtils.calculateMinimumAmounts(
+        expected.amount0,
+        expected.amount1,
+        slippage
+      );
+
+      console.log(`📈 Expected ${keepToken.symbol} out: ${formatUnits(expectedKeep + quotedOut, keepToken.decimals)} (min ${formatUnits(minimumAmountOut, keepToken.decimals)})`);
+
+      // 3. Withdraw both tokens to the signer so the swap leg can spend them
+      const withdrawal = await this.withdraw({
+        vaultAddress,
+        shares,
+        account: userAddr,
+        amount0Min,
+        amount1Min,
+        recipient: userAddr
+      });
+      if (!withdrawal.success) {
+        return withdrawal;
+      }
+
+      const [keepReceived, swapIn] = outIsToken0
+        ? [withdrawal.token0Received ?? 0n, withdrawal.token1Received ?? 0n]
+        : [withdrawal.token1Received ?? 0n, withdrawal.token0Received ?? 0n];
+
+      // 4. Swap the unwanted side, requiring whatever is still missing from the combined minimum
+      let swapTransactionHash: string | undefined;
+      let swapOut = 0n;
+      try {
+        if (swapIn > 0n) {
+          const swapMinimum = minimumAmountOut > keepReceived ? minimumAmountOut - keepReceived : 0n;
+
+          console.log(`🔄 Swapping ${formatUnits(swapIn, swapToken.decimals)} ${swapToken.symbol} for ${keepToken.symbol}...`);
+          const swap = await this.poolSwapper.swapExactInput({
+            tokenIn: swapToken.address as Address,
+            tokenOut: keepToken.address as Address,
+            fee: poolState.fee,
+            amountIn: swapIn,
+            amountOutMinimum: swapMinimum,
+            recipient: userAddr
+          }, userAddr);
+
+          swapTransactionHash = swap.transactionHash;
+          swapOut = swap.amountOut;
+        }
+      } catch (swapError) {
+        // The withdrawal already landed, so report it alongside the failed swap
+        console.error('❌ Swap leg failed after withdrawal:', swapError);
+        return {
+          ...withdrawal,
+          success: false,
+          tokenOut: keepToken.address,
+          minimumAmountOut,
+          error: swapError instanceof Error ? swapError.message : 'Unknown error'
+        };
+      }
+
+      const amountOut = keepReceived + swapOut;
+      console.log(`✅ Received ${formatUnits(amountOut, keepToken.decimals)} ${keepToken.symbol}`);
+
+      return {
+        ...withdrawal,
+        tokenOut: keepToken.address,
+        amountOut,
+        minimumAmountOut,
+        swapTransactionHash,
+        amountSwapped: swapIn
+      };
+
+    } catch (error) {
+      console.error('❌ Single-token withdrawal failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
 }
 
 /**
@@ -227,9 +921,15 @@ export class SmartPoolWithdrawalExamples {
     
     // First, check current LP token balance
     const userAddress = '0xCD88431107B72b1a1aa13DE27Ab894e27C7D1a61';
+    const vaultInfo = await this.withdrawalManager.getVaultInfo(vaultAddress);
+    if (!vaultInfo) {
+      console.error('❌ Failed to resolve vault information');
+      return;
+    }
+
     const totalBalance = await this.withdrawalManager.getLpTokenBalance(vaultAddress, userAddress);
     
-    console.log(`💰 Total LP token balance: ${formatUnits(totalBalance, 18)}`);
+    console.log(`💰 Total LP token balance: ${formatUnits(totalBalance, vaultInfo.decimals)}`);
     
     if (totalBalance === 0n) {
       console.log('❌ No LP tokens to withdraw');
@@ -238,25 +938,25 @@ export class SmartPoolWithdrawalExamples {
 
     // Withdraw 50% of balance
     const sharesToWithdraw = totalBalance / BigInt(2);
-    console.log(`📤 Withdrawing 50%: ${formatUnits(sharesToWithdraw, 18)} LP tokens`);
+    console.log(`📤 Withdrawing 50%: ${formatUnits(sharesToWithdraw, vaultInfo.decimals)} LP tokens`);
 
-    // Get withdrawal preview
-    const preview = await this.withdrawalManager.calculateOptimalWithdrawAmounts(vaultAddress, sharesToWithdraw);
+    // Get withdrawal preview with 0.5% slippage
+    const preview = await this.withdrawalManager.previewWithdraw(vaultAddress, sharesToWithdraw, 0.005);
 
     if (!preview) {
       console.error('❌ Failed to get withdrawal preview');
       return;
     }
 
-    console.log(`📊 Withdrawal preview:`);
-    console.log(`  Token0: ${formatUnits(preview.amount0, 18)} WAVAX`);
-    console.log(`  Token1: ${formatUnits(preview.amount1, 6)} USDC`);
+    console.log(`📊 Withdrawal preview (${(preview.shareOfVault * 100).toFixed(4)}% of vault):`);
+    console.log(`  Token0: ${formatUnits(preview.amount0Expected, vaultInfo.token0.decimals)} ${vaultInfo.token0.symbol} (min ${formatUnits(preview.amount0Min, vaultInfo.token0.decimals)})`);
+    console.log(`  Token1: ${formatUnits(preview.amount1Expected, vaultInfo.token1.decimals)} ${vaultInfo.token1.symbol} (min ${formatUnits(preview.amount1Min, vaultInfo.token1.decimals)})`);
    
     const withdrawTX = await this.withdrawalManager.prepareWithdrawTx({
       vaultAddress,
       shares: sharesToWithdraw,
-      amount0Min: preview.amount0,
-      amount1Min: preview.amount1,
+      amount0Min: preview.amount0Min,
+      amount1Min: preview.amount1Min,
       recipient: userAddress
     });
     
@@ -274,22 +974,23 @@ export class WithdrawalUtils {
    * Format token amounts for display
    */
   static formatAmount(amount: bigint, decimals: number): string {
-    return formatUnits(amount, decimals);
+    return AmountMath.format({ raw: amount, decimals });
   }
 
   /**
    * Parse token amounts from string
    */
   static parseAmount(amount: string, decimals: number): bigint {
-    return parseUnits(amount, decimals);
+    return AmountMath.parse(amount, { decimals }).raw;
   }
 
   /**
    * Calculate slippage amount
+   *
+   * @deprecated Use `AmountMath.applySlippage` with basis points
    */
   static calculateSlippageAmount(amount: bigint, slippagePercent: number): bigint {
-    const slippage = BigInt(Math.floor(Number(amount) * slippagePercent));
-    return amount - slippage;
+    return AmountMath.applySlippage(amount, AmountMath.slippageToBps(slippagePercent));
   }
 
   /**
@@ -300,11 +1001,11 @@ export class WithdrawalUtils {
     token1Amount: bigint,
     slippagePercent: number
   ): { amount0Min: bigint; amount1Min: bigint } {
-    const slippageMultiplier = BigInt(Math.floor((1 - slippagePercent) * 10000)); // Convert to basis points
-    const amount0Min = (token0Amount * slippageMultiplier) / BigInt(10000);
-    const amount1Min = (token1Amount * slippageMultiplier) / BigInt(10000);
-    
-    return { amount0Min, amount1Min };
+    const slippageBps = AmountMath.slippageToBps(slippagePercent);
+    return {
+      amount0Min: AmountMath.applySlippage(token0Amount, slippageBps),
+      amount1Min: AmountMath.applySlippage(token1Amount, slippageBps)
+    };
   }
 
   /**
@@ -321,14 +1022,22 @@ export class WithdrawalUtils {
       errors.push('Shares must be greater than 0');
     }
 
-    if (params.amount0Min < 0n) {
+    if (params.amount0Min !== undefined && params.amount0Min < 0n) {
       errors.push('Amount0Min must be non-negative');
     }
 
-    if (params.amount1Min < 0n) {
+    if (params.amount1Min !== undefined && params.amount1Min < 0n) {
       errors.push('Amount1Min must be non-negative');
     }
 
+    if (params.slippage !== undefined && (params.slippage < 0 || params.slippage > 1)) {
+      errors.push('Slippage must be between 0 and 1');
+    }
+
+    if (params.slippage === undefined && (params.amount0Min === undefined || params.amount1Min === undefined)) {
+      errors.push('Either slippage or both amount0Min and amount1Min are required');
+    }
+
     return {
       isValid: errors.length === 0,
       errors
@@ -337,5 +1046,5 @@ export class WithdrawalUtils {
 }
 
 // Export types
-export type { TokenAmountsResponse, WithdrawalParams, WithdrawalResult };
+export type { TokenAmountsResponse, WithdrawalParams, WithdrawalResult, BatchWithdrawalResult, AccountWithdrawalResult, WithdrawalPreview, SingleTokenWithdrawalResult, TokenPriceSource };
 
@@ -0,0 +1,21 @@
+import { getSubgraphConfig } from './steer-config';
+
+describe('getSubgraphConfig', () => {
+  it('has no built-in endpoints', () => {
+    for (const chainId of [43114, 137, 42161, 10, 56, 8453]) {
+      expect(getSubgraphConfig(chainId, {})).toBeNull();
+    }
+  });
+
+  it('reads the endpoint, API key and timeout from the environment', () => {
+    const env = { STEER_SUBGRAPH_URL_43114: 'https://subgraph.test', STEER_SUBGRAPH_API_KEY: 'key', STEER_SUBGRAPH_TIMEOUT_MS: '2500' };
+
+    expect(getSubgraphConfig(43114, env)).toEqual({ url: 'https://subgraph.test', apiKey: 'key', timeout: 2500 });
+    expect(getSubgraphConfig(137, env)).toBeNull();
+  });
+
+  it('falls back to the default timeout when the configured one is invalid', () => {
+    expect(getSubgraphConfig(43114, { STEER_SUBGRAPH_URL_43114: 'https://subgraph.test', STEER_SUBGRAPH_TIMEOUT_MS: '-1' }))
+      .toEqual({ url: 'https://subgraph.test', apiKey: undefined, timeout: 10_000 });
+  });
+});
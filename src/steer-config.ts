@@ -0,0 +1,114 @@
+/**
+ * Steer Protocol Configuration
+ *
+ * Per-chain contract addresses and subgraph endpoints used alongside the
+ * Steer SDK, keyed by chain ID.
+ */
+
+import { Address } from 'viem';
+import { NotFoundError, SubgraphConfig } from './steer-types';
+
+// Third-party contracts the examples interact with on each chain
+interface ChainContracts {
+  // Steer periphery; pulls tokens for `isSteerPeriphery` deposits
+  steerPeriphery: Address;
+  // Uniswap V3 factory; zaps only swap through pools it deployed
+  uniswapV3Factory: Address;
+  // Uniswap V3 SwapRouter02
+  swapRouter: Address;
+  // Uniswap V3 QuoterV2
+  quoter: Address;
+  // Wrapped native currency (WAVAX, WMATIC, WETH, WBNB)
+  wrappedNative: Address;
+}
+
+const CHAIN_CONTRACTS: Record<number, ChainContracts> = {
+  // Avalanche
+  43114: {
+    steerPeriphery: '0x5D8249e3F5f702e1Fd720167b40424fc2daDCd1e',
+    uniswapV3Factory: '0x740b1c1de25031C31FF4fC9A62f554A55cdC1baD',
+    swapRouter: '0xbb00FF08d01D300023C629E8fFfFcb65A5a578cE',
+    quoter: '0xbe0F5544EC67e9B3b2D979aaA43f18Fd87E6257F',
+    wrappedNative: '0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7'
+  },
+  // Polygon
+  137: {
+    steerPeriphery: '0x29E1888F7DD0757f2873E494463Ec389dab38D27',
+    uniswapV3Factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+    swapRouter: '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45',
+    quoter: '0x61fFE014bA17989E743c5F6cB21bF9697530B21e',
+    wrappedNative: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270'
+  },
+  // Arbitrum
+  42161: {
+    steerPeriphery: '0x806c2240793b3738000fcb62C66BF462764B903F',
+    uniswapV3Factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+    swapRouter: '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45',
+    quoter: '0x61fFE014bA17989E743c5F6cB21bF9697530B21e',
+    wrappedNative: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1'
+  },
+  // Optimism
+  10: {
+    steerPeriphery: '0x7c464A0AB1f5ebf3E2dCccfec7EF41D02ED7a2f4',
+    uniswapV3Factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+    swapRouter: '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45',
+    quoter: '0x61fFE014bA17989E743c5F6cB21bF9697530B21e',
+    wrappedNative: '0x4200000000000000000000000000000000000006'
+  },
+  // BSC
+  56: {
+    steerPeriphery: '0xe240B9a2936f6Fb8860219bC059349e50F03492e',
+    uniswapV3Factory: '0xdB1d10011AD0Ff90774D0C6Bb92e5C5c8b4461F7',
+    swapRouter: '0xB971eF87ede563556b2ED4b1C0b0019111Dd85d2',
+    quoter: '0x78D78E420Da98ad378D7799bE8f4AF69033EB077',
+    wrappedNative: '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c'
+  },
+  // Base
+  8453: {
+    steerPeriphery: '0x16BA7102271dC83Fff2f709691c2B601DAD7668e',
+    uniswapV3Factory: '0x33128a8fC17869897dcE68Ed026d694621f6FDfD',
+    swapRouter: '0x2626664c2603336E57B271c5C0b26F421741e481',
+    quoter: '0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a',
+    wrappedNative: '0x4200000000000000000000000000000000000006'
+  }
+};
+
+/**
+ * Get the contract addresses configured for a chain
+ *
+ * @throws NotFoundError when the chain has no configuration
+ */
+export function getChainContracts(chainId: number): ChainContracts {
+  const contracts = CHAIN_CONTRACTS[chainId];
+  if (!contracts) {
+    throw new NotFoundError(`Contract configuration for chain ${chainId}`);
+  }
+  return contracts;
+}
+
+// Subgraph requests are abandoned after this long unless configured otherwise
+const DEFAULT_SUBGRAPH_TIMEOUT_MS = 10_000;
+
+/**
+ * Read the subgraph endpoint for a chain from environment variables
+ *
+ * `STEER_SUBGRAPH_URL_<chainId>` sets the endpoint, with optional
+ * `STEER_SUBGRAPH_API_KEY` and `STEER_SUBGRAPH_TIMEOUT_MS` shared across
+ * chains. No endpoint is built in, so this returns null for a chain without one.
+ */
+export function getSubgraphConfig(chainId: number, env: NodeJS.ProcessEnv = process.env): SubgraphConfig | null {
+  const url = env[`STEER_SUBGRAPH_URL_${chainId}`];
+  if (!url) {
+    return null;
+  }
+
+  const timeout = Number(env.STEER_SUBGRAPH_TIMEOUT_MS);
+  return {
+    url,
+    apiKey: env.STEER_SUBGRAPH_API_KEY || undefined,
+    timeout: Number.isFinite(timeout) && timeout > 0 ? timeout : DEFAULT_SUBGRAPH_TIMEOUT_MS
+  };
+}
+
+// Export for use in other files
+export { CHAIN_CONTRACTS, DEFAULT_SUBGRAPH_TIMEOUT_MS, type ChainContracts };
@@ -9,8 +9,30 @@ import { ChainId, Protocol } from '@steerprotocol/sdk';
 import { SteerVaultManager } from './smart-pool-get-vaults';
 
 // Main functionality
-export { SteerVaultManager } from './smart-pool-get-vaults';
-export type { SupportedChainId } from './smart-pool-get-vaults';
+export { SteerVaultManager, VaultScanError } from './smart-pool-get-vaults';
+export type {
+  SupportedChainId,
+  VaultSource,
+  VaultFetchOptions,
+  VaultAprSnapshot,
+  VaultApr,
+  VaultWithApr,
+  VaultWithAprEdge,
+  VaultsWithAprResponse,
+  VaultPageSuccess,
+  VaultPageResult,
+  GetAllVaultsParams,
+  VaultScanPage,
+  AllVaultsResult,
+  VaultQueryResponse,
+  ChainVaultComparison
+} from './smart-pool-get-vaults';
+export { SubgraphVaultClient } from './subgraph-client';
+export type { SubgraphVaultFilter, SubgraphVaultEntity } from './subgraph-client';
+export { VaultNormalizer } from './vault-normalizer';
+export type { RejectedVault, NormalizedPage } from './vault-normalizer';
+export { VaultQuery } from './vault-query';
+export type { VaultFilter, VaultQueryOptions, VaultQueryResult } from './vault-query';
 
 // Convenience functions
 export async function runGetVaultsExamples(): Promise<void> {
@@ -24,17 +46,43 @@ export async function runGetVaultsExamples(): Promise<void> {
     const avalancheVaults = await vaultManager.getAllVaults({ 
       chainId: ChainId.Avalanche, 
       batchSize: 50,
-      protocol: Protocol.Blackhole
+      protocol: Protocol.Blackhole,
+      includeApr: true
     });
     console.log(`✅ Found ${avalancheVaults.data?.length} vaults on Avalanche`);
+    if (!avalancheVaults.complete) {
+      console.warn(`⚠️  Listing is incomplete; resume with ${avalancheVaults.source} cursor ${avalancheVaults.lastCursor}`);
+    }
     
     if (avalancheVaults.data?.length > 0) {
       console.log('First vault:', avalancheVaults.data[0]);
+
+      const apr = avalancheVaults.data[0].node.apr;
+      if (apr) {
+        console.log(`  Current APR: ${apr.apr}% (${apr.message})`);
+        apr.snapshots.forEach(snapshot => {
+          console.log(`    Period ${snapshot.period}: ${snapshot.apr}% APR, TVL: $${snapshot.tvlUSD}, Fees: $${snapshot.feesUSD}`);
+        });
+      }
     }
   } catch (error) {
     console.error('❌ Failed to fetch Avalanche vaults:', error);
   }
 
+  // Example: Top USDC vaults on Arbitrum by APY
+  console.log('\n🔎 Querying top USDC vaults on Arbitrum...');
+  const topUsdc = await vaultManager.queryVaults(ChainId.Arbitrum, {
+    filter: { token: 'USDC', minTvl: 10_000 },
+    sort: { field: 'apy', direction: 'desc' },
+    pagination: { limit: 5 }
+  });
+  if (topUsdc.success) {
+    topUsdc.data.vaults.forEach(vault => {
+      console.log(`  ${vault.token0.symbol}/${vault.token1.symbol} ${vault.address}: ${vault.apy}% APY, TVL $${vault.totalValueLocked}`);
+    });
+  } else {
+    console.error('❌ Failed to query Arbitrum vaults:', topUsdc.error);
+  }
 }
 
 // Run the examples if this file is executed directly
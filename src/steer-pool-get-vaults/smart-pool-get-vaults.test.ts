@@ -0,0 +1,309 @@
+import { SteerVaultManager, VaultApiClient, VaultScanPage } from './smart-pool-get-vaults';
+import { SubgraphVaultEntity } from './subgraph-client';
+import { startSubgraphStub, SubgraphStub } from './subgraph-stub.test-helper';
+
+const WAVAX = '0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7';
+const USDC = '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E';
+const ADDRESSES = ['1', '2', '3', '4', '5'].map(digit => `0x${digit.repeat(40)}`);
+
+function apiVault(address: string, apy: number, protocol = 'Blackhole') {
+  return {
+    id: address,
+    address,
+    token0: { address: WAVAX, symbol: 'WAVAX', decimals: 18 },
+    token1: { address: USDC, symbol: 'USDC', decimals: 6 },
+    protocol,
+    beaconName: 'MultiPositionBlackhole',
+    totalValueLocked: String(apy * 1000),
+    apy
+  };
+}
+
+function subgraphVault(address: string): SubgraphVaultEntity {
+  return {
+    id: address,
+    beaconName: 'MultiPositionBlackhole',
+    createdAt: '1700000000',
+    token0: WAVAX.toLowerCase(),
+    token0Symbol: 'WAVAX',
+    token0Decimals: '18',
+    token1: USDC.toLowerCase(),
+    token1Symbol: 'USDC',
+    token1Decimals: '6'
+  };
+}
+
+/**
+ * Fake Steer API that pages over `vaults`, failing the calls listed in `failOn`;
+ * cursors are vault ids unless `cursorOf` encodes them
+ */
+function fakeApi(
+  vaults: Record<string, unknown>[],
+  failOn: number[] = [],
+  cursorOf: (id: string) => string = id => id
+) {
+  let calls = 0;
+  const apr = { inFlight: 0, maxInFlight: 0 };
+  return {
+    apr,
+    getVaults: jest.fn(async (_filter: unknown, limit: number, cursor: string | null) => {
+      if (failOn.includes(++calls)) {
+        throw new Error('API unavailable');
+      }
+      const start = cursor ? vaults.findIndex(vault => cursorOf(vault.id as string) === cursor) + 1 : 0;
+      if (start === 0 && cursor) {
+        throw new Error(`Unknown cursor ${cursor}`);
+      }
+      const edges = vaults.slice(start, start + limit).map(node => ({ node, cursor: cursorOf(node.id as string) }));
+      return {
+        success: true,
+        data: {
+          edges,
+          pageInfo: {
+            hasNextPage: start + limit < vaults.length,
+            hasPreviousPage: start > 0,
+            startCursor: edges[0]?.cursor ?? null,
+            endCursor: edges[edges.length - 1]?.cursor ?? null
+          },
+          totalCount: vaults.length
+        }
+      };
+    }),
+    getBlackholeVaultApr: jest.fn(async ({ vaultAddress }: { vaultAddress: string }) => {
+      apr.maxInFlight = Math.max(apr.maxInFlight, ++apr.inFlight);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      apr.inFlight--;
+      if (vaultAddress === ADDRESSES[1]) {
+        return { success: false, error: 'No APR data' };
+      }
+      return { success: true, data: { apr: { apr: 9.5, message: 'ok' }, snapshotAnalysis: [{ period: '7d', apr: 8 }] } };
+    })
+  };
+}
+
+describe('SteerVaultManager', () => {
+  // Local GraphQL endpoint standing in for the Avalanche subgraph; Polygon has none
+  let stub: SubgraphStub;
+
+  function createManager(api: ReturnType<typeof fakeApi>): SteerVaultManager {
+    return new SteerVaultManager({
+      vaultClients: { 43114: api as unknown as VaultApiClient, 137: api as unknown as VaultApiClient },
+      subgraphConfigs: { 43114: { url: stub.url, timeout: 1000 }, 137: null }
+    });
+  }
+
+  async function serveSubgraph(vaults: SubgraphVaultEntity[]): Promise<void> {
+    await stub.close();
+    stub = await startSubgraphStub(vaults);
+  }
+
+  beforeEach(async () => {
+    stub = await startSubgraphStub([]);
+    for (const method of ['log', 'warn', 'error'] as const) {
+      jest.spyOn(console, method).mockImplementation(() => undefined);
+    }
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await stub.close();
+  });
+
+  describe('getVaults', () => {
+    it('validates API pages and reports malformed vaults', async () => {
+      const api = fakeApi([apiVault(ADDRESSES[0], 5), { ...apiVault(ADDRESSES[1], 5), token1: { address: USDC } }]);
+
+      const result = await createManager(api).getVaults(43114, 10);
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.source).toBe('api');
+      expect(result.data.edges.map(edge => edge.node.id)).toEqual([ADDRESSES[0]]);
+      expect(result.rejected).toEqual([expect.objectContaining({ index: 1, id: ADDRESSES[1], field: 'token1.decimals' })]);
+    });
+
+    it('falls back to the subgraph when the API fails', async () => {
+      await serveSubgraph([subgraphVault(ADDRESSES[0]), { ...subgraphVault(ADDRESSES[1]), beaconName: 'StaticStableStrategy' }]);
+
+      const result = await createManager(fakeApi([], [1])).getVaults(43114, 10, null, 'MultiPositionBlackhole');
+
+      expect(stub.requests.map(request => request.variables)).toEqual([
+        { first: 11, where: { beaconName: 'MultiPositionBlackhole' } }
+      ]);
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.source).toBe('subgraph');
+      expect(result.data.edges.map(edge => edge.node.id)).toEqual([ADDRESSES[0]]);
+      expect(result.data.edges[0].node.unavailableFields).toEqual(['protocol', 'totalValueLocked', 'apy']);
+    });
+
+    it('rejects subgraph vaults without token decimals', async () => {
+      await serveSubgraph([subgraphVault(ADDRESSES[0]), { ...subgraphVault(ADDRESSES[1]), token1Decimals: null }]);
+
+      const result = await createManager(fakeApi([], [1])).getVaults(43114, 10);
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.data.edges.map(edge => edge.node.id)).toEqual([ADDRESSES[0]]);
+      expect(result.rejected).toEqual([expect.objectContaining({ index: 1, id: ADDRESSES[1], field: 'token1.decimals' })]);
+    });
+
+    it('returns a failed result for an unsupported chain', async () => {
+      const result = await createManager(fakeApi([])).getVaults(1);
+
+      expect(result).toEqual({ success: false, error: 'Unsupported chainId: 1', chainId: 1 });
+    });
+
+    it('fails when the API fails and the chain has no subgraph', async () => {
+      const result = await createManager(fakeApi([], [1])).getVaults(137);
+
+      expect(result).toEqual({ success: false, error: 'API failed and no subgraph is configured for chain 137', chainId: 137 });
+    });
+
+    it('refuses a protocol filter the subgraph cannot apply', async () => {
+      const result = await createManager(fakeApi([], [1])).getVaults(43114, 10, null, undefined, 'Blackhole');
+
+      expect(result.success).toBe(false);
+      expect(stub.requests).toHaveLength(0);
+    });
+
+    it('fetches APR only when asked, a few requests at a time', async () => {
+      const api = fakeApi(ADDRESSES.map(address => apiVault(address, 5)));
+      const manager = createManager(api);
+
+      await manager.getVaults(43114, 10);
+      expect(api.getBlackholeVaultApr).not.toHaveBeenCalled();
+
+      const result = await manager.getVaults(43114, 10, null, undefined, undefined, { includeApr: true, aprConcurrency: 2 });
+      expect(api.getBlackholeVaultApr).toHaveBeenCalledTimes(5);
+      expect(api.apr.maxInFlight).toBe(2);
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      const [first, second] = result.data.edges.map(edge => edge.node);
+      expect(first.apr).toEqual({ apr: 9.5, message: 'ok', snapshots: [{ period: '7d', apr: 8, tvlUSD: 0, feesUSD: 0 }] });
+      expect(second).toMatchObject({ apr: null, aprError: 'No APR data' });
+    });
+
+    it.each([0, -1, 1.5, NaN])('rejects an APR concurrency of %p before fetching', async aprConcurrency => {
+      const api = fakeApi([apiVault(ADDRESSES[0], 5)]);
+
+      const result = await createManager(api).getVaults(43114, 10, null, undefined, undefined, { includeApr: true, aprConcurrency });
+
+      expect(result).toEqual({ success: false, error: 'aprConcurrency must be a positive integer', chainId: 43114 });
+      expect(api.getVaults).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getAllVaults', () => {
+    it('returns what it fetched and where to resume when a page keeps failing', async () => {
+      const vaults = ADDRESSES.map(address => apiVault(address, 5));
+      // The second page fails on the API and on its retry
+      const api = fakeApi(vaults, [2, 3]);
+      const manager = createManager(api);
+
+      const partial = await manager.getAllVaults({ chainId: 43114, batchSize: 2, maxRetries: 1, retryDelay: 0 });
+      expect(partial).toMatchObject({ success: false, complete: false, totalCount: 2, lastCursor: ADDRESSES[1], source: 'api' });
+
+      const rest = await manager.getAllVaults({
+        chainId: 43114,
+        batchSize: 2,
+        cursor: partial.lastCursor,
+        source: partial.source,
+        retryDelay: 0
+      });
+      expect(rest).toMatchObject({ success: true, complete: true, totalCount: 3, lastCursor: ADDRESSES[4], source: 'api' });
+    });
+
+    it('keeps a scan on the API when it fails part way with opaque cursors', async () => {
+      const opaque = (id: string) => Buffer.from(`vault:${id}`).toString('base64');
+      const api = fakeApi(ADDRESSES.map(address => apiVault(address, 5)), [2, 3], opaque);
+      await serveSubgraph(ADDRESSES.map(subgraphVault));
+      const manager = createManager(api);
+
+      const partial = await manager.getAllVaults({ chainId: 43114, batchSize: 2, maxRetries: 1, retryDelay: 0 });
+
+      // The subgraph never sees the API's cursor, and no subgraph page is mixed in
+      expect(stub.requests).toHaveLength(0);
+      expect(partial).toMatchObject({ complete: false, totalCount: 2, lastCursor: opaque(ADDRESSES[1]), source: 'api' });
+
+      const rest = await manager.getAllVaults({
+        chainId: 43114,
+        batchSize: 2,
+        cursor: partial.lastCursor,
+        source: partial.source,
+        retryDelay: 0
+      });
+      expect(rest).toMatchObject({ complete: true, totalCount: 3, source: 'api' });
+      expect([...partial.data, ...rest.data].map(edge => edge.node.id)).toEqual(ADDRESSES);
+    });
+
+    it('keeps a scan on the subgraph once it served the first page', async () => {
+      const api = fakeApi(ADDRESSES.map(address => apiVault(address, 5)), [1]);
+      await serveSubgraph(ADDRESSES.map(subgraphVault));
+      const pages: VaultScanPage[] = [];
+
+      for await (const page of createManager(api).iterateVaults({ chainId: 43114, batchSize: 2, retryDelay: 0 })) {
+        pages.push(page);
+      }
+
+      expect(api.getVaults).toHaveBeenCalledTimes(1);
+      expect(pages.map(page => page.source)).toEqual(['subgraph', 'subgraph', 'subgraph']);
+      expect(stub.requests.map(request => request.variables.where.id_gt)).toEqual([undefined, ADDRESSES[1], ADDRESSES[3]]);
+    });
+
+    it('refuses to resume from a cursor without its source', async () => {
+      const api = fakeApi(ADDRESSES.map(address => apiVault(address, 5)));
+
+      const result = await createManager(api).getAllVaults({ chainId: 43114, batchSize: 2, cursor: ADDRESSES[1] });
+
+      expect(result).toMatchObject({ success: false, complete: false, error: 'A resume cursor needs the source that issued it' });
+      expect(api.getVaults).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('queryVaults', () => {
+    it('filters, sorts and pages every vault on the chain', async () => {
+      const api = fakeApi([
+        apiVault(ADDRESSES[0], 4),
+        apiVault(ADDRESSES[1], 12),
+        apiVault(ADDRESSES[2], 8, 'Pharaoh'),
+        apiVault(ADDRESSES[3], 20)
+      ]);
+
+      const result = await createManager(api).queryVaults(43114, {
+        filter: { minApy: 5 },
+        sort: { field: 'apy', direction: 'desc' },
+        pagination: { limit: 2 }
+      }, { batchSize: 3 });
+
+      expect(result.success).toBe(true);
+      expect(result.complete).toBe(true);
+      expect(result.data.vaults.map(vault => vault.id)).toEqual([ADDRESSES[3], ADDRESSES[1]]);
+      expect(result.data).toMatchObject({ totalCount: 3, hasNextPage: true });
+    });
+
+    it('refuses APY and TVL queries over subgraph vaults', async () => {
+      await serveSubgraph([subgraphVault(ADDRESSES[0])]);
+      const manager = createManager(fakeApi([], [1, 2, 3, 4]));
+
+      const byApy = await manager.queryVaults(43114, { sort: { field: 'apy', direction: 'desc' } });
+      expect(byApy).toMatchObject({ success: false, error: 'Cannot filter or sort by apy: 1 of 1 vaults do not provide it' });
+
+      const byTvl = await manager.queryVaults(43114, { filter: { minTvl: 100 } });
+      expect(byTvl.success).toBe(false);
+
+      const byToken = await manager.queryVaults(43114, { filter: { token: 'USDC' } });
+      expect(byToken.success).toBe(true);
+      expect(byToken.data.totalCount).toBe(1);
+    });
+
+    it('rejects an invalid APR concurrency', async () => {
+      const api = fakeApi([apiVault(ADDRESSES[0], 5)]);
+
+      const result = await createManager(api).queryVaults(43114, {}, { includeApr: true, aprConcurrency: 0 });
+
+      expect(result).toMatchObject({ success: false, complete: false, error: 'aprConcurrency must be a positive integer' });
+      expect(api.getVaults).not.toHaveBeenCalled();
+    });
+  });
+});
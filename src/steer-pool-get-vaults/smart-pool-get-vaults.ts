@@ -1,13 +1,19 @@
 /**
  * Steer Protocol SDK - Subgraph Fallback Implementation Example
  * 
- * This example demonstrates how to use the Steer Protocol SDK with automatic
- * subgraph fallback for vault fetching across different chains.
+ * This example demonstrates how to use the Steer Protocol SDK with a
+ * subgraph fallback for vault fetching on chains with a configured subgraph.
  */
 
 import { VaultClient } from '@steerprotocol/sdk';
 import { createPublicClient, createWalletClient, http, type Chain } from 'viem';
 import { arbitrum, avalanche, base, bsc, optimism, polygon } from 'viem/chains';
+import { getSubgraphConfig } from '../steer-config';
+import { SteerError, SteerResponse, SubgraphConfig, ValidationError, Vault, VaultEdge, VaultsResponse } from '../steer-types';
+import { Utils } from '../utils';
+import { SubgraphVaultClient } from './subgraph-client';
+import { RejectedVault, VaultNormalizer } from './vault-normalizer';
+import { VaultQuery, VaultQueryOptions, VaultQueryResult } from './vault-query';
 
 // Chain configuration mapping
 const CHAIN_CONFIG = {
@@ -21,25 +27,160 @@ const CHAIN_CONFIG = {
 
 type SupportedChainId = keyof typeof CHAIN_CONFIG;
 
+// The VaultClient methods the manager relies on
+type VaultApiClient = Pick<VaultClient, 'getVaults' | 'getBlackholeVaultApr'>;
+
+interface SteerVaultManagerOptions {
+  // Subgraph endpoints by chain ID; null disables the chain's subgraph, and
+  // chains not listed use `getSubgraphConfig`
+  subgraphConfigs?: Record<number, SubgraphConfig | null>;
+  // API clients by chain ID; chains not listed get a production VaultClient
+  vaultClients?: Record<number, VaultApiClient>;
+}
+
+// Where a page of vaults came from; API and subgraph cursors are not interchangeable
+type VaultSource = 'api' | 'subgraph';
+
+interface VaultFetchOptions {
+  // Only use this source: 'api' never falls back, 'subgraph' skips the API
+  source?: VaultSource;
+  // Fetch Blackhole APR details for each vault; off by default
+  includeApr?: boolean;
+  // Maximum APR requests in flight at once; a positive integer
+  aprConcurrency?: number;
+}
+
+// APR over one historical snapshot period
+interface VaultAprSnapshot {
+  period: string;
+  apr: number;
+  tvlUSD: number;
+  feesUSD: number;
+}
+
+interface VaultApr {
+  // Current APR, in percent
+  apr: number;
+  message: string;
+  snapshots: VaultAprSnapshot[];
+}
+
+// Vault with APR details attached; `apr` is null when they could not be fetched
+interface VaultWithApr extends Vault {
+  apr: VaultApr | null;
+  aprError?: string;
+}
+
+interface VaultWithAprEdge extends VaultEdge {
+  node: VaultWithApr;
+}
+
+interface VaultsWithAprResponse extends VaultsResponse {
+  edges: VaultWithAprEdge[];
+}
+
+// A page fetched from the API or subgraph, with any entries that failed validation
+type VaultPageSuccess<T extends VaultsResponse = VaultsResponse> =
+  Extract<SteerResponse<T>, { success: true }> & { chainId: number; rejected: RejectedVault[] };
+
+type VaultPageResult<T extends VaultsResponse = VaultsResponse> =
+  | VaultPageSuccess<T>
+  | (Extract<SteerResponse<T>, { success: false }> & { chainId: number });
+
+interface GetAllVaultsParams extends VaultFetchOptions {
+  chainId: number;
+  batchSize: number;
+  beaconName?: string;
+  protocol?: string;
+  // Cursor to start after, such as the last good cursor of an interrupted scan;
+  // requires the `source` that issued it
+  cursor?: string | null;
+  // Retries per page before the scan stops
+  maxRetries?: number;
+  // Delay before the first retry, doubled on each further attempt
+  retryDelay?: number;
+}
+
+// One page of a vault scan
+interface VaultScanPage<E extends VaultEdge = VaultEdge> {
+  edges: E[];
+  rejected: RejectedVault[];
+  source: VaultSource;
+  // Cursor after this page; pass it as `cursor` to resume from here
+  cursor: string | null;
+  hasNextPage: boolean;
+}
+
+interface AllVaultsResult<E extends VaultEdge = VaultEdge> {
+  // False when the scan stopped before the last page
+  success: boolean;
+  complete: boolean;
+  data: E[];
+  totalCount: number;
+  chainId: number;
+  rejected: RejectedVault[];
+  // Cursor after the last page fetched; resume from here when incomplete
+  lastCursor: string | null;
+  // Source that issued `lastCursor`; pass it back with the cursor to resume
+  source?: VaultSource;
+  error?: string;
+}
+
+interface VaultQueryResponse {
+  success: boolean;
+  data: VaultQueryResult;
+  // False when the query ran over a partial listing
+  complete: boolean;
+  chainId: number;
+  error?: string;
+}
+
+// Page results keyed by chain ID
+type ChainVaultComparison = Partial<Record<SupportedChainId, VaultPageResult>>;
+
+const DEFAULT_APR_CONCURRENCY = 5;
+const DEFAULT_PAGE_RETRIES = 2;
+const DEFAULT_PAGE_RETRY_DELAY_MS = 1000;
+
+/**
+ * Raised when a vault scan cannot fetch its next page
+ */
+export class VaultScanError extends SteerError {
+  constructor(
+    message: string,
+    // Cursor to resume from: after the last page fetched, or where the scan started
+    public lastCursor: string | null,
+    public fetched: number,
+    // Source the scan was pinned to; undefined when no page was fetched
+    public source?: VaultSource
+  ) {
+    super(message, 'SCAN_INTERRUPTED');
+    this.name = 'VaultScanError';
+  }
+}
+
 /**
  * Steer Vault Manager with Subgraph Fallback
  * 
- * This class demonstrates the enhanced VaultClient with automatic fallback
- * to subgraph when the primary API fails.
+ * This class demonstrates the enhanced VaultClient with a fallback to the
+ * chain's configured subgraph when the primary API fails. No subgraph
+ * endpoints are built in: pass `subgraphConfigs` or set
+ * `STEER_SUBGRAPH_URL_<chainId>`, otherwise an API failure is returned as is.
  */
 export class SteerVaultManager {
-  private vaultClients: Map<number, VaultClient> = new Map();
+  private vaultClients: Map<number, VaultApiClient> = new Map();
   private publicClients: Map<number, any> = new Map();
   private walletClients: Map<number, any> = new Map();
+  private subgraphClients: Map<number, SubgraphVaultClient> = new Map();
 
-  constructor() {
-    this.initializeClients();
+  constructor(options: SteerVaultManagerOptions = {}) {
+    this.initializeClients(options);
   }
 
   /**
-   * Initialize VaultClient instances for all supported chains
+   * Initialize VaultClient and subgraph client instances for all supported chains
    */
-  private initializeClients(): void {
+  private initializeClients({ subgraphConfigs = {}, vaultClients = {} }: SteerVaultManagerOptions): void {
     Object.entries(CHAIN_CONFIG).forEach(([chainId, chain]) => {
       const publicClient = createPublicClient({
         chain: chain as Chain,
@@ -51,7 +192,7 @@ export class SteerVaultManager {
         transport: http()
       });
 
-      const vaultClient = new VaultClient(
+      const vaultClient = vaultClients[Number(chainId)] ?? new VaultClient(
         publicClient,
         walletClient,
         'production'
@@ -60,28 +201,102 @@ export class SteerVaultManager {
       this.publicClients.set(Number(chainId), publicClient);
       this.walletClients.set(Number(chainId), walletClient);
       this.vaultClients.set(Number(chainId), vaultClient);
+
+      const subgraphConfig = subgraphConfigs[Number(chainId)] !== undefined
+        ? subgraphConfigs[Number(chainId)]
+        : getSubgraphConfig(Number(chainId));
+      if (subgraphConfig) {
+        this.subgraphClients.set(Number(chainId), new SubgraphVaultClient(subgraphConfig));
+      }
     });
   }
 
   /**
-   * Get vaults with automatic subgraph fallback
+   * Get vaults, falling back to the chain's subgraph when one is configured
+   * 
+   * Payloads from either source are validated and normalized; entries that
+   * fail validation are left out and listed in `rejected`. Set `source` to
+   * keep a page on one source, e.g. when following a cursor it issued.
    * 
    * @param chainId - The chain ID to fetch vaults from
    * @param limit - Maximum number of vaults to fetch
    * @param cursor - Pagination cursor
    * @param beaconName - Optional beacon name filter
+   * @param protocol - Optional protocol filter
+   * @param options - Set `includeApr` to attach Blackhole APR details to each
+   *   vault, `source` to use only the API or only the subgraph
    */
+  async getVaults(
+    chainId: number,
+    limit: number | undefined,
+    cursor: string | null | undefined,
+    beaconName: string | undefined,
+    protocol: string | undefined,
+    options: VaultFetchOptions & { includeApr: true }
+  ): Promise<VaultPageResult<VaultsWithAprResponse>>;
+  async getVaults(
+    chainId: number,
+    limit?: number,
+    cursor?: string | null,
+    beaconName?: string,
+    protocol?: string,
+    options?: VaultFetchOptions
+  ): Promise<VaultPageResult>;
   async getVaults(
     chainId: number,
     limit: number = 50,
     cursor: string | null = null,
     beaconName?: string,
-    protocol?: string
-  ) {
+    protocol?: string,
+    options: VaultFetchOptions = {}
+  ): Promise<VaultPageResult> {
+    try {
+      SteerVaultManager.validateFetchOptions(options);
+    } catch (error) {
+      return { success: false, error: (error as ValidationError).message, chainId };
+    }
+
+    const result = await this.fetchVaults(chainId, limit, cursor, beaconName, protocol, options.source);
+    if (!options.includeApr || !result.success) {
+      return result;
+    }
+
+    return {
+      ...result,
+      data: await this.attachApr(chainId, result.data, options.aprConcurrency)
+    };
+  }
+
+  /**
+   * Check fetch options before any request is made
+   *
+   * @throws ValidationError when `aprConcurrency` is not a positive integer
+   */
+  private static validateFetchOptions({ aprConcurrency }: VaultFetchOptions): void {
+    if (aprConcurrency !== undefined && (!Number.isInteger(aprConcurrency) || aprConcurrency < 1)) {
+      throw new ValidationError('aprConcurrency must be a positive integer', 'aprConcurrency');
+    }
+  }
+
+  /**
+   * Fetch one page of vaults from the API, falling back to the subgraph
+   * unless `source` pins the page to one of them
+   */
+  private async fetchVaults(
+    chainId: number,
+    limit: number,
+    cursor: string | null,
+    beaconName?: string,
+    protocol?: string,
+    source?: VaultSource
+  ): Promise<VaultPageResult> {
     const vaultClient = this.vaultClients.get(chainId);
-    
     if (!vaultClient) {
-      throw new Error(`Unsupported chainId: ${chainId}`);
+      return { success: false, error: `Unsupported chainId: ${chainId}`, chainId };
+    }
+
+    if (source === 'subgraph') {
+      return this.getVaultsFromSubgraph(chainId, limit, cursor, beaconName, protocol, false);
     }
 
     const filter: any = { chainId };
@@ -98,104 +313,314 @@ export class SteerVaultManager {
       const result = await vaultClient.getVaults(filter, limit, cursor);
       
       if (result.success && result.data) {
-        console.log(`✅ Successfully fetched ${result.data.edges.length} vaults from API`);
-
-        // Loop over each vault and fetch Blackhole APR details
-        for (const edge of result.data.edges) {
-          const vault = edge.node as any;
-          
-          console.log(`\nFetching Blackhole APR details for vault: ${vault.address || vault.id}`);
-          
-          try {
-            const aprDetails = await vaultClient.getBlackholeVaultApr({
-              vaultAddress: vault.address || vault.id,
-              chainId: chainId
-            });
-
-            if (aprDetails.success && aprDetails.data) {
-              console.log(`  ✅ Current APR: ${aprDetails.data.apr.apr}%`);
-              console.log(`  Status: ${aprDetails.data.apr.message}`);
-              
-              // Log snapshot analysis if available
-              if (aprDetails.data.snapshotAnalysis && aprDetails.data.snapshotAnalysis.length > 0) {
-                console.log(`  Historical snapshots: ${aprDetails.data.snapshotAnalysis.length}`);
-                aprDetails.data.snapshotAnalysis.forEach((snapshot: any) => {
-                  console.log(`    Period ${snapshot.period}: ${snapshot.apr}% APR, TVL: $${snapshot.tvlUSD}, Fees: $${snapshot.feesUSD}`);
-                });
-              }
-            } else {
-              console.log(`  ⚠️ Failed to fetch APR details: ${aprDetails.error}`);
-            }
-          } catch (aprError) {
-            console.log(`  ⚠️ Error fetching Blackhole APR: ${aprError}`);
-          }
-        }
-        
-        return {
-          success: true,
-          data: result.data,
-          source: 'api' as const,
-          chainId
-        };
+        const page = this.toPageResult(result.data, 'api', chainId);
+        console.log(`✅ Successfully fetched ${page.data.edges.length} vaults from API`);
+        return page;
       } else {
         throw new Error('API returned unsuccessful response');
       }
     } catch (error) {
+      if (source === 'api') {
+        console.error(`❌ API client failed: ${error}`);
+        return { success: false, error: error instanceof Error ? error.message : String(error), chainId };
+      }
       console.warn(`⚠️  API client failed, falling back to subgraph: ${error}`);
+      return this.getVaultsFromSubgraph(chainId, limit, cursor, beaconName, protocol, true);
+    }
+  }
+
+  /**
+   * Validate a page from either source and report rejected entries
+   *
+   * @throws ValidationError when the page itself is malformed
+   */
+  private toPageResult(raw: unknown, source: 'api' | 'subgraph', chainId: number): VaultPageSuccess {
+    const { data, rejected } = VaultNormalizer.normalizePage(raw);
+    if (rejected.length > 0) {
+      console.warn(`⚠️  Skipped ${rejected.length} malformed vault${rejected.length === 1 ? '' : 's'} from ${source}:`);
+      rejected.forEach(entry => {
+        console.warn(`    #${entry.index}${entry.id ? ` (${entry.id})` : ''}: ${entry.reason}`);
+      });
+    }
+    return { success: true, data, source, chainId, rejected };
+  }
+
+  /**
+   * Fetch Blackhole APR details for every vault in a page
+   *
+   * Requests run `concurrency` at a time. A vault whose APR cannot be fetched
+   * gets `apr: null` and an `aprError` instead of failing the page.
+   */
+  private async attachApr(
+    chainId: number,
+    data: VaultsResponse,
+    concurrency: number = DEFAULT_APR_CONCURRENCY
+  ): Promise<VaultsWithAprResponse> {
+    const vaultClient = this.vaultClients.get(chainId) as VaultApiClient;
+    console.log(`📈 Fetching APR for ${data.edges.length} vaults (${concurrency} at a time)...`);
+
+    const edges = await Utils.batchProcess(data.edges, async (edge): Promise<VaultWithAprEdge> => {
+      const vaultAddress = edge.node.address || edge.node.id;
+      try {
+        const aprDetails = await vaultClient.getBlackholeVaultApr({ vaultAddress, chainId });
+        if (aprDetails.success && aprDetails.data) {
+          return { ...edge, node: { ...edge.node, apr: SteerVaultManager.toVaultApr(aprDetails.data) } };
+        }
+        return { ...edge, node: { ...edge.node, apr: null, aprError: String(aprDetails.error ?? 'APR unavailable') } };
+      } catch (error) {
+        return { ...edge, node: { ...edge.node, apr: null, aprError: error instanceof Error ? error.message : String(error) } };
+      }
+    }, concurrency);
+
+    const failed = edges.filter(edge => edge.node.apr === null).length;
+    if (failed > 0) {
+      console.warn(`⚠️  APR unavailable for ${failed} of ${edges.length} vaults`);
+    }
+    return { ...data, edges };
+  }
+
+  /**
+   * Normalize the SDK's Blackhole APR response
+   */
+  private static toVaultApr(data: any): VaultApr {
+    return {
+      apr: Number(data.apr?.apr ?? 0),
+      message: String(data.apr?.message ?? ''),
+      snapshots: (data.snapshotAnalysis ?? []).map((snapshot: any): VaultAprSnapshot => ({
+        period: String(snapshot.period),
+        apr: Number(snapshot.apr ?? 0),
+        tvlUSD: Number(snapshot.tvlUSD ?? 0),
+        feesUSD: Number(snapshot.feesUSD ?? 0)
+      }))
+    };
+  }
+
+  /**
+   * Get vaults from the chain's subgraph
+   *
+   * The subgraph does not index protocols, so a protocol filter is refused
+   * rather than answered with unfiltered vaults.
+   *
+   * @param fallback - Whether the API failed first, for the error message
+   */
+  private async getVaultsFromSubgraph(
+    chainId: number,
+    limit: number,
+    cursor: string | null,
+    beaconName: string | undefined,
+    protocol: string | undefined,
+    fallback: boolean
+  ): Promise<VaultPageResult> {
+    const subgraphClient = this.subgraphClients.get(chainId);
+    if (!subgraphClient) {
+      console.error(`❌ No subgraph configured for chain ${chainId}`);
       return {
         success: false,
-        error: error,
+        error: `${fallback ? 'API failed and no' : 'No'} subgraph is configured for chain ${chainId}`,
+        chainId
+      };
+    }
+
+    if (protocol) {
+      console.error('❌ The subgraph cannot filter by protocol');
+      return {
+        success: false,
+        error: `${fallback ? 'API failed and the' : 'The'} subgraph for chain ${chainId} cannot filter by protocol`,
+        chainId
+      };
+    }
+
+    try {
+      const page = this.toPageResult(await subgraphClient.getVaults({ beaconName }, limit, cursor), 'subgraph', chainId);
+      console.log(`✅ Successfully fetched ${page.data.edges.length} vaults from subgraph`);
+      return page;
+    } catch (error) {
+      console.error(`❌ Subgraph ${fallback ? 'fallback ' : ''}failed: ${error}`);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
         chainId
       };
     }
   }
 
   /**
-   * Get vaults with pagination support
+   * Stream vaults page by page
+   *
+   * Each page is retried with exponential backoff before the scan gives up.
+   * The whole scan stays on the source that served its first page, since API
+   * and subgraph cursors mean different things. Every yielded page carries
+   * the cursor after it; when a page still fails, the iterator throws a
+   * VaultScanError holding the last good cursor and its source, which can be
+   * passed back as `cursor` and `source` to resume the scan.
+   *
+   * @throws ValidationError when `cursor` is given without `source`
    */
-  async getAllVaults(
-   { 
+  iterateVaults(params: GetAllVaultsParams & { includeApr: true }): AsyncGenerator<VaultScanPage<VaultWithAprEdge>>;
+  iterateVaults(params: GetAllVaultsParams): AsyncGenerator<VaultScanPage>;
+  async *iterateVaults({
     chainId,
     batchSize,
     beaconName,
-    protocol}: { 
-      chainId: number,
-      batchSize: number,
-      beaconName?: string,
-      protocol?: string
-    } 
-  ) {
-    const allVaults: any[] = [];
-    let cursor: string | null = null;
-    let hasMore = true;
-    let totalFetched = 0;
+    protocol,
+    cursor = null,
+    source,
+    maxRetries = DEFAULT_PAGE_RETRIES,
+    retryDelay = DEFAULT_PAGE_RETRY_DELAY_MS,
+    includeApr,
+    aprConcurrency
+  }: GetAllVaultsParams): AsyncGenerator<VaultScanPage> {
+    if (!this.vaultClients.has(chainId)) {
+      throw new Error(`Unsupported chainId: ${chainId}`);
+    }
+    SteerVaultManager.validateFetchOptions({ aprConcurrency });
+    if (cursor && !source) {
+      throw new ValidationError('A resume cursor needs the source that issued it', 'source');
+    }
 
-    console.log(`Starting paginated fetch for chain ${chainId}...`);
+    let lastCursor = cursor;
+    let scanSource = source;
+    let fetched = 0;
+    let hasMore = true;
 
     while (hasMore) {
-      const result = await this.getVaults(chainId, batchSize, cursor, beaconName, protocol);
-      
-      if (result.success && result.data) {
-        allVaults.push(...result.data.edges);
-        totalFetched += result.data.edges.length;
-        hasMore = result.data.pageInfo.hasNextPage;
-        cursor = result.data.pageInfo.endCursor;
-        
-        console.log(`Fetched ${result.data.edges.length} vaults (total: ${totalFetched})`);
-      } else {
-        console.error('Failed to fetch vaults:', (result as any).error || 'Unknown error');
-        break;
+      let page: VaultPageSuccess;
+      try {
+        page = await Utils.retry(async () => {
+          const result = await this.getVaults(chainId, batchSize, lastCursor, beaconName, protocol, {
+            includeApr,
+            aprConcurrency,
+            source: scanSource
+          });
+          if (!result.success) {
+            throw new Error(result.error);
+          }
+          return result;
+        }, maxRetries, retryDelay);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new VaultScanError(`Vault scan stopped after ${fetched} vaults: ${reason}`, lastCursor, fetched, scanSource);
       }
+
+      const { pageInfo } = page.data;
+      hasMore = pageInfo.hasNextPage;
+      if (hasMore && (!pageInfo.endCursor || pageInfo.endCursor === lastCursor)) {
+        throw new VaultScanError(
+          'Vault scan stopped: page reported more results without a new cursor',
+          lastCursor,
+          fetched,
+          page.source
+        );
+      }
+
+      scanSource = page.source;
+      lastCursor = pageInfo.endCursor ?? lastCursor;
+      fetched += page.data.edges.length;
+      yield {
+        edges: page.data.edges,
+        rejected: page.rejected,
+        source: page.source,
+        cursor: lastCursor,
+        hasNextPage: hasMore
+      };
+    }
+  }
+
+  /**
+   * Get every vault, page by page
+   *
+   * A scan that stops part way returns the vaults fetched so far with
+   * `complete: false`, the error, and the cursor and source to resume from.
+   */
+  async getAllVaults(params: GetAllVaultsParams & { includeApr: true }): Promise<AllVaultsResult<VaultWithAprEdge>>;
+  async getAllVaults(params: GetAllVaultsParams): Promise<AllVaultsResult>;
+  async getAllVaults(params: GetAllVaultsParams): Promise<AllVaultsResult> {
+    const allVaults: VaultEdge[] = [];
+    const rejected: RejectedVault[] = [];
+    let lastCursor = params.cursor ?? null;
+    let source = params.source;
+
+    console.log(`Starting paginated fetch for chain ${params.chainId}...`);
+
+    try {
+      for await (const page of this.iterateVaults(params)) {
+        allVaults.push(...page.edges);
+        rejected.push(...page.rejected);
+        lastCursor = page.cursor;
+        source = page.source;
+
+        console.log(`Fetched ${page.edges.length} vaults (total: ${allVaults.length})`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ ${message}`);
+      return {
+        success: false,
+        complete: false,
+        data: allVaults,
+        totalCount: allVaults.length,
+        chainId: params.chainId,
+        rejected,
+        lastCursor: error instanceof VaultScanError ? error.lastCursor : lastCursor,
+        source: error instanceof VaultScanError ? error.source : source,
+        error: message
+      };
     }
 
     return {
       success: true,
+      complete: true,
       data: allVaults,
-      totalCount: totalFetched,
-      chainId
+      totalCount: allVaults.length,
+      chainId: params.chainId,
+      rejected,
+      lastCursor,
+      source
     };
   }
 
+  /**
+   * Fetch every vault on a chain and filter, sort and page them
+   *
+   * The protocol and beacon filters are also sent to the API or subgraph, so
+   * fewer vaults are fetched. `complete` is false when only part of the
+   * chain's vaults could be fetched. Filters and sorts on TVL, APY or protocol
+   * fail when the vaults came from the subgraph, which does not provide them.
+   */
+  async queryVaults(
+    chainId: number,
+    query: VaultQueryOptions = {},
+    options: VaultFetchOptions & { batchSize?: number } = {}
+  ): Promise<VaultQueryResponse> {
+    const empty: VaultQueryResult = { vaults: [], totalCount: 0, hasNextPage: false, nextCursor: null };
+
+    try {
+      VaultQuery.validate(query);
+      SteerVaultManager.validateFetchOptions(options);
+      const all = await this.getAllVaults({
+        chainId,
+        batchSize: options.batchSize ?? 100,
+        beaconName: query.filter?.beaconName,
+        protocol: query.filter?.protocol,
+        includeApr: options.includeApr,
+        aprConcurrency: options.aprConcurrency
+      });
+      const data = VaultQuery.apply(all.data.map(edge => edge.node), query);
+
+      console.log(`🔎 ${data.totalCount} of ${all.data.length} vaults match the query on chain ${chainId}`);
+      return { success: true, data, complete: all.complete, chainId, error: all.error };
+    } catch (error) {
+      console.error('❌ Vault query failed:', error);
+      return {
+        success: false,
+        data: empty,
+        complete: false,
+        chainId,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
   /**
    * Get vaults by specific beacon name
    */
@@ -203,7 +628,7 @@ export class SteerVaultManager {
     chainId: SupportedChainId,
     beaconName: string,
     limit: number = 50
-  ) {
+  ): Promise<VaultPageResult> {
     return this.getVaults(chainId, limit, null, beaconName);
   }
 
@@ -213,8 +638,8 @@ export class SteerVaultManager {
   async compareVaultsAcrossChains(
     beaconName: string,
     limit: number = 20
-  ) {
-    const results: Record<string, any> = {};
+  ): Promise<ChainVaultComparison> {
+    const results: ChainVaultComparison = {};
     
     console.log(`Comparing vaults with beacon "${beaconName}" across chains...`);
 
@@ -223,7 +648,7 @@ export class SteerVaultManager {
       console.log(`\n--- Chain ${numericChainId} ---`);
       
       const result = await this.getVaultsByBeacon(numericChainId, beaconName, limit);
-      results[chainId] = result;
+      results[numericChainId] = result;
     }
 
     return results;
@@ -246,3 +671,21 @@ export class SteerVaultExamples {
 
 // Export for use in other files
 export { CHAIN_CONFIG, type SupportedChainId };
+export type {
+  VaultApiClient,
+  SteerVaultManagerOptions,
+  VaultSource,
+  VaultFetchOptions,
+  VaultAprSnapshot,
+  VaultApr,
+  VaultWithApr,
+  VaultWithAprEdge,
+  VaultsWithAprResponse,
+  VaultPageSuccess,
+  VaultPageResult,
+  GetAllVaultsParams,
+  VaultScanPage,
+  AllVaultsResult,
+  VaultQueryResponse,
+  ChainVaultComparison
+};
@@ -0,0 +1,117 @@
+import { NetworkError, SteerError } from '../steer-types';
+import { SubgraphVaultClient, SubgraphVaultEntity } from './subgraph-client';
+import { startSubgraphStub, SubgraphStub } from './subgraph-stub.test-helper';
+
+function entity(id: string, beaconName = 'MultiPositionBlackhole'): SubgraphVaultEntity {
+  return {
+    id,
+    beaconName,
+    createdAt: '1700000000',
+    token0: '0xb31f66aa3c1e785363f0875a1b74e27b85fd66c7',
+    token0Symbol: 'WAVAX',
+    token0Decimals: '18',
+    token1: '0xb97ef9ef8734c71904d8002f8b6bc66dd9c48a6e',
+    token1Symbol: 'USDC',
+    token1Decimals: '6'
+  };
+}
+
+const VAULTS = [
+  entity('0x1111111111111111111111111111111111111111'),
+  entity('0x2222222222222222222222222222222222222222', 'StaticStableStrategy'),
+  entity('0x3333333333333333333333333333333333333333')
+];
+
+describe('SubgraphVaultClient', () => {
+  let stub: SubgraphStub;
+  let client: SubgraphVaultClient;
+
+  beforeEach(async () => {
+    stub = await startSubgraphStub(VAULTS);
+    client = new SubgraphVaultClient({ url: stub.url, timeout: 1000, apiKey: 'test-api-key' });
+  });
+
+  afterEach(async () => {
+    await stub.close();
+  });
+
+  it('pages by vault id and asks for one extra entity', async () => {
+    const page = await client.getVaults({}, 2);
+
+    expect(stub.requests[0].variables).toEqual({ first: 3, where: {} });
+    expect(page.edges.map(edge => edge.cursor)).toEqual([VAULTS[0].id, VAULTS[1].id]);
+    expect(page.pageInfo).toEqual({
+      hasNextPage: true,
+      hasPreviousPage: false,
+      startCursor: VAULTS[0].id,
+      endCursor: VAULTS[1].id
+    });
+    expect(page.totalCount).toBe(2);
+  });
+
+  it('walks every page by passing the last id as the cursor', async () => {
+    const first = await client.getVaults({}, 2);
+    const second = await client.getVaults({}, 2, first.pageInfo.endCursor);
+
+    expect(stub.requests[1].variables).toEqual({ first: 3, where: { id_gt: VAULTS[1].id } });
+    expect(second.edges.map(edge => edge.cursor)).toEqual([VAULTS[2].id]);
+    expect(second.pageInfo).toMatchObject({ hasNextPage: false, hasPreviousPage: true });
+  });
+
+  it('starts after the cursor and filters by beacon', async () => {
+    const page = await client.getVaults({ beaconName: 'MultiPositionBlackhole' }, 2, VAULTS[0].id);
+
+    expect(stub.requests[0].variables).toEqual({
+      first: 3,
+      where: { id_gt: VAULTS[0].id, beaconName: 'MultiPositionBlackhole' }
+    });
+    expect(page.edges.map(edge => edge.cursor)).toEqual([VAULTS[2].id]);
+    expect(page.pageInfo.hasNextPage).toBe(false);
+  });
+
+  it('sends the API key as a bearer token', async () => {
+    await client.getVaults();
+
+    expect(stub.requests[0].headers).toMatchObject({
+      authorization: 'Bearer test-api-key',
+      'content-type': 'application/json'
+    });
+  });
+
+  it('lists the fields the subgraph does not index instead of guessing them', () => {
+    const vault = SubgraphVaultClient.toVault(VAULTS[0]);
+
+    expect(vault.protocol).toBe('');
+    expect(vault.unavailableFields).toEqual(['protocol', 'totalValueLocked', 'apy']);
+    expect(vault.token1).toMatchObject({ symbol: 'USDC', decimals: 6 });
+    expect(vault.createdAt).toBe('2023-11-14T22:13:20.000Z');
+  });
+
+  it('leaves out token decimals the subgraph does not have', () => {
+    const vault = SubgraphVaultClient.toVault({ ...VAULTS[0], token0Decimals: null, token1Decimals: '0' });
+
+    expect(vault.token0.decimals).toBeUndefined();
+    expect(vault.token1.decimals).toBe(0);
+  });
+
+  it('raises GraphQL errors as SteerErrors', async () => {
+    stub.mode = 'errors';
+
+    const error = await client.getVaults().catch(e => e);
+    expect(error).toBeInstanceOf(SteerError);
+    expect(error.code).toBe('SUBGRAPH_ERROR');
+    expect(error.message).toContain('indexing error');
+  });
+
+  it('raises a response without data as a SteerError', async () => {
+    stub.mode = 'empty';
+
+    await expect(client.getVaults()).rejects.toMatchObject({ code: 'SUBGRAPH_ERROR' });
+  });
+
+  it('raises transport failures as NetworkErrors', async () => {
+    stub.mode = 'down';
+
+    await expect(client.getVaults()).rejects.toBeInstanceOf(NetworkError);
+  });
+});
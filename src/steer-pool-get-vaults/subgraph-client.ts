@@ -0,0 +1,173 @@
+/**
+ * Steer Subgraph Vault Client
+ *
+ * Fetches vaults straight from a chain's Steer subgraph over GraphQL and maps
+ * the entities into the same `VaultsResponse` shape the Steer API returns,
+ * so callers can fall back to it without caring where the data came from.
+ */
+
+import axios from 'axios';
+import { NetworkError, SteerError, SubgraphConfig, Token, Vault, VaultsResponse } from '../steer-types';
+
+// Filters the subgraph can apply; it does not index protocols
+interface SubgraphVaultFilter {
+  beaconName?: string;
+}
+
+// Vault entity as indexed by the Steer subgraph
+interface SubgraphVaultEntity {
+  id: string;
+  beaconName: string | null;
+  createdAt: string | null;
+  token0: string;
+  token0Symbol: string | null;
+  token0Decimals: string | null;
+  token1: string;
+  token1Symbol: string | null;
+  token1Decimals: string | null;
+}
+
+// Token as mapped from an entity; decimals are left out when the subgraph has none
+type SubgraphToken = Omit<Token, 'decimals'> & { decimals?: number };
+
+type SubgraphVault = Omit<Vault, 'token0' | 'token1'> & { token0: SubgraphToken; token1: SubgraphToken };
+
+// A page in the API's shape, to be validated by `VaultNormalizer`
+interface SubgraphVaultsResponse extends Omit<VaultsResponse, 'edges'> {
+  edges: { node: SubgraphVault; cursor: string }[];
+}
+
+interface GraphQLResponse<T> {
+  data?: T;
+  errors?: { message: string }[];
+}
+
+const VAULTS_QUERY = `
+  query Vaults($first: Int!, $where: Vault_filter!) {
+    vaults(first: $first, orderBy: id, orderDirection: asc, where: $where) {
+      id
+      beaconName
+      createdAt
+      token0
+      token0Symbol
+      token0Decimals
+      token1
+      token1Symbol
+      token1Decimals
+    }
+  }
+`;
+
+/**
+ * Subgraph Vault Client
+ *
+ * Pages by vault id: each edge's cursor is its vault id and the next page
+ * starts after it. The subgraph cannot count matches, so `totalCount` is the
+ * number of vaults in the page. It does not index protocols, TVL or APY, so
+ * vaults list those in `unavailableFields` and carry placeholder values.
+ * Token decimals the subgraph lacks are left out rather than guessed, so
+ * `VaultNormalizer` rejects those vaults.
+ */
+export class SubgraphVaultClient {
+  private config: SubgraphConfig;
+
+  constructor(config: SubgraphConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Fetch one page of vaults
+   *
+   * @throws NetworkError when the endpoint cannot be reached
+   * @throws SteerError when the subgraph returns GraphQL errors
+   */
+  async getVaults(filter: SubgraphVaultFilter = {}, limit: number = 50, cursor: string | null = null): Promise<SubgraphVaultsResponse> {
+    const where: Record<string, string> = {};
+    if (cursor) {
+      where.id_gt = cursor;
+    }
+    if (filter.beaconName) {
+      where.beaconName = filter.beaconName;
+    }
+
+    // One extra entity tells whether another page exists
+    const data = await this.query<{ vaults: SubgraphVaultEntity[] }>(VAULTS_QUERY, { first: limit + 1, where });
+    const entities = data.vaults ?? [];
+    const edges = entities.slice(0, limit).map(entity => ({
+      node: SubgraphVaultClient.toVault(entity),
+      cursor: entity.id
+    }));
+
+    return {
+      edges,
+      pageInfo: {
+        hasNextPage: entities.length > limit,
+        hasPreviousPage: cursor !== null,
+        startCursor: edges.length > 0 ? edges[0].cursor : null,
+        endCursor: edges.length > 0 ? edges[edges.length - 1].cursor : null
+      },
+      totalCount: edges.length
+    };
+  }
+
+  /**
+   * Map a subgraph vault entity to the API's vault shape
+   */
+  static toVault(entity: SubgraphVaultEntity): SubgraphVault {
+    const createdAt = entity.createdAt ? new Date(Number(entity.createdAt) * 1000).toISOString() : '';
+    return {
+      id: entity.id,
+      address: entity.id,
+      token0: SubgraphVaultClient.toToken(entity.token0, entity.token0Symbol, entity.token0Decimals),
+      token1: SubgraphVaultClient.toToken(entity.token1, entity.token1Symbol, entity.token1Decimals),
+      protocol: '',
+      beaconName: entity.beaconName ?? '',
+      totalValueLocked: '0',
+      apy: 0,
+      createdAt,
+      updatedAt: createdAt,
+      unavailableFields: ['protocol', 'totalValueLocked', 'apy']
+    };
+  }
+
+  private static toToken(address: string, symbol: string | null, decimals: string | null): SubgraphToken {
+    return {
+      id: address,
+      address,
+      symbol: symbol ?? '',
+      name: symbol ?? '',
+      decimals: decimals !== null ? Number(decimals) : undefined
+    };
+  }
+
+  private async query<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+    let response: GraphQLResponse<T>;
+    try {
+      const result = await axios.post<GraphQLResponse<T>>(
+        this.config.url,
+        { query, variables },
+        {
+          timeout: this.config.timeout,
+          headers: {
+            'Content-Type': 'application/json',
+            ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {})
+          }
+        }
+      );
+      response = result.data;
+    } catch (error) {
+      throw new NetworkError(`Subgraph request failed: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (response.errors && response.errors.length > 0) {
+      throw new SteerError(`Subgraph query failed: ${response.errors.map(e => e.message).join('; ')}`, 'SUBGRAPH_ERROR');
+    }
+    if (!response.data) {
+      throw new SteerError('Subgraph returned no data', 'SUBGRAPH_ERROR');
+    }
+    return response.data;
+  }
+}
+
+// Export types
+export type { SubgraphVaultFilter, SubgraphVaultEntity, SubgraphToken, SubgraphVault, SubgraphVaultsResponse };
@@ -0,0 +1,85 @@
+/**
+ * Local Subgraph Stub
+ *
+ * A GraphQL endpoint on a random local port that answers the `vaults` query
+ * the subgraph client sends, so tests exercise the real HTTP round-trip:
+ * request body, variables, headers and id-based paging.
+ */
+
+import { createServer, IncomingHttpHeaders } from 'http';
+import { AddressInfo } from 'net';
+import { SubgraphVaultEntity } from './subgraph-client';
+
+// A GraphQL request as the stub received it
+interface RecordedRequest {
+  headers: IncomingHttpHeaders;
+  query: string;
+  variables: { first: number; where: { id_gt?: string; beaconName?: string } };
+}
+
+interface SubgraphStub {
+  url: string;
+  requests: RecordedRequest[];
+  // 'ok' answers queries, 'errors' returns GraphQL errors, 'empty' returns no data,
+  // 'down' answers with HTTP 503
+  mode: 'ok' | 'errors' | 'empty' | 'down';
+  close(): Promise<void>;
+}
+
+/**
+ * Serve `vaults` the way the Steer subgraph does: ordered by id, filtered by
+ * `where`, limited to `first`
+ */
+export async function startSubgraphStub(vaults: SubgraphVaultEntity[]): Promise<SubgraphStub> {
+  const requests: RecordedRequest[] = [];
+  const sorted = [...vaults].sort((a, b) => a.id.localeCompare(b.id));
+
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const { query, variables } = JSON.parse(body);
+      requests.push({ headers: req.headers, query, variables });
+
+      if (stub.mode === 'down') {
+        res.writeHead(503).end();
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      if (stub.mode === 'errors') {
+        res.end(JSON.stringify({ errors: [{ message: 'indexing error' }] }));
+        return;
+      }
+      if (stub.mode === 'empty') {
+        res.end('{}');
+        return;
+      }
+      if (!/vaults\(first: \$first, orderBy: id, orderDirection: asc, where: \$where\)/.test(query)) {
+        res.end(JSON.stringify({ errors: [{ message: 'Unexpected query' }] }));
+        return;
+      }
+
+      const { first, where } = variables;
+      const matching = sorted
+        .filter(vault => where.id_gt === undefined || vault.id > where.id_gt)
+        .filter(vault => where.beaconName === undefined || vault.beaconName === where.beaconName)
+        .slice(0, first);
+      res.end(JSON.stringify({ data: { vaults: matching } }));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const stub: SubgraphStub = {
+    url: `http://127.0.0.1:${port}/subgraph`,
+    requests,
+    mode: 'ok',
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())))
+  };
+  return stub;
+}
+
+// Export types
+export type { RecordedRequest, SubgraphStub };
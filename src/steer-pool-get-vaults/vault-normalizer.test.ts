@@ -0,0 +1,108 @@
+import { ValidationError } from '../steer-types';
+import { VaultNormalizer } from './vault-normalizer';
+
+const VAULT = '0x1111111111111111111111111111111111111111';
+const WAVAX = '0xb31f66aa3c1e785363f0875a1b74e27b85fd66c7';
+const USDC = '0xb97ef9ef8734c71904d8002f8b6bc66dd9c48a6e';
+
+function rawVault(overrides: Record<string, unknown> = {}) {
+  return {
+    id: VAULT,
+    address: VAULT,
+    token0: { address: WAVAX, symbol: 'WAVAX', decimals: '18' },
+    token1: { address: USDC, symbol: 'USDC', decimals: 6 },
+    protocol: 'Blackhole',
+    beaconName: 'MultiPositionBlackhole',
+    totalValueLocked: 1250.5,
+    apy: '12.5',
+    ...overrides
+  };
+}
+
+function rawPage(nodes: unknown[]) {
+  return {
+    edges: nodes.map(node => ({ node })),
+    pageInfo: { hasNextPage: false, endCursor: '' },
+    totalCount: nodes.length
+  };
+}
+
+function expectValidationError(normalize: () => unknown, field: string): void {
+  let thrown: unknown;
+  try {
+    normalize();
+  } catch (error) {
+    thrown = error;
+  }
+  expect(thrown).toBeInstanceOf(ValidationError);
+  expect((thrown as ValidationError).field).toBe(field);
+}
+
+describe('VaultNormalizer', () => {
+  describe('normalizeVault', () => {
+    it('checksums addresses and parses numeric strings', () => {
+      const vault = VaultNormalizer.normalizeVault(rawVault());
+
+      expect(vault.address).toBe(VAULT);
+      expect(vault.token0.address).toBe('0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7');
+      expect(vault.token0).toMatchObject({ decimals: 18, name: 'WAVAX' });
+      expect(vault.totalValueLocked).toBe('1250.5');
+      expect(vault.apy).toBe(12.5);
+      expect(vault.createdAt).toBe('');
+      expect(vault.unavailableFields).toBeUndefined();
+    });
+
+    it('keeps the fields a source could not provide', () => {
+      const vault = VaultNormalizer.normalizeVault(rawVault({ unavailableFields: ['totalValueLocked', 'apy'] }));
+
+      expect(vault.unavailableFields).toEqual(['totalValueLocked', 'apy']);
+    });
+
+    it('flags a missing TVL or APY instead of passing a zero through', () => {
+      const vault = VaultNormalizer.normalizeVault(rawVault({ totalValueLocked: undefined, apy: null }));
+
+      expect(vault.unavailableFields).toEqual(['totalValueLocked', 'apy']);
+      expect(vault.totalValueLocked).toBe('0');
+      expect(vault.apy).toBe(0);
+    });
+
+    it('adds a missing field to the ones the source already flagged', () => {
+      const vault = VaultNormalizer.normalizeVault(rawVault({ apy: undefined, unavailableFields: ['protocol'] }));
+
+      expect(vault.unavailableFields).toEqual(['protocol', 'apy']);
+    });
+
+    it.each([
+      ['a missing address', { id: undefined, address: undefined }, 'address'],
+      ['invalid token decimals', { token1: { address: USDC, decimals: 6.5 } }, 'token1.decimals'],
+      ['a token without decimals', { token0: { address: WAVAX } }, 'token0.decimals'],
+      ['a non-numeric TVL', { totalValueLocked: 'lots' }, 'totalValueLocked'],
+      ['an unknown unavailable field', { unavailableFields: ['fees'] }, 'unavailableFields']
+    ])('rejects %s', (_, overrides, field) => {
+      expectValidationError(() => VaultNormalizer.normalizeVault(rawVault(overrides)), field);
+    });
+  });
+
+  describe('normalizePage', () => {
+    it('keeps valid entries and reports the rest', () => {
+      const bad = '0x2222222222222222222222222222222222222222';
+      const { data, rejected } = VaultNormalizer.normalizePage(
+        rawPage([rawVault(), rawVault({ id: bad, address: bad, token0: null }), 'not a vault'])
+      );
+
+      expect(data.edges).toHaveLength(1);
+      expect(data.edges[0].cursor).toBe(VAULT);
+      expect(data.pageInfo).toEqual({ hasNextPage: false, hasPreviousPage: false, startCursor: null, endCursor: null });
+      expect(rejected).toEqual([
+        { index: 1, id: bad, field: 'token0', reason: 'token0 is not a token object' },
+        { index: 2, id: undefined, field: 'node', reason: 'Vault entry is not an object' }
+      ]);
+    });
+
+    it('rejects a malformed page', () => {
+      expectValidationError(() => VaultNormalizer.normalizePage({ pageInfo: { hasNextPage: false } }), 'edges');
+      expectValidationError(() => VaultNormalizer.normalizePage({ edges: [] }), 'pageInfo');
+      expectValidationError(() => VaultNormalizer.normalizePage({ edges: [], pageInfo: {} }), 'pageInfo.hasNextPage');
+    });
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Vault Normalizer
+ *
+ * Validates vault payloads from the Steer API and subgraph at runtime and
+ * normalizes them into the `Vault` and `VaultsResponse` types. Entries that
+ * fail validation are reported instead of being passed through.
+ */
+
+import { getAddress, isAddress } from 'viem';
+import { PageInfo, Token, ValidationError, Vault, VaultDataField, VaultEdge, VaultsResponse } from '../steer-types';
+
+// A vault entry that failed validation and was left out of the page
+interface RejectedVault {
+  // Position of the entry in the page
+  index: number;
+  // Vault id or address, when the entry had one
+  id?: string;
+  field: string;
+  reason: string;
+}
+
+interface NormalizedPage {
+  data: VaultsResponse;
+  rejected: RejectedVault[];
+}
+
+/**
+ * Vault Normalizer
+ *
+ * Addresses are checksummed, numeric strings are accepted where numbers are
+ * expected, and descriptive fields the source leaves out default to empty.
+ * A missing TVL or APY gets a zero placeholder and is listed in
+ * `unavailableFields`, so queries filtering or sorting on it are refused.
+ * Ids, addresses and token decimals are required.
+ */
+export class VaultNormalizer {
+  /**
+   * Validate a page of vaults, keeping the valid entries and reporting the rest
+   *
+   * @throws ValidationError when the page itself is malformed
+   */
+  static normalizePage(raw: unknown): NormalizedPage {
+    if (!VaultNormalizer.isRecord(raw) || !Array.isArray(raw.edges)) {
+      throw new ValidationError('Vault page has no edges', 'edges');
+    }
+
+    const edges: VaultEdge[] = [];
+    const rejected: RejectedVault[] = [];
+    raw.edges.forEach((edge: unknown, index: number) => {
+      const node = VaultNormalizer.isRecord(edge) ? edge.node : undefined;
+      try {
+        const vault = VaultNormalizer.normalizeVault(node);
+        const cursor = VaultNormalizer.isRecord(edge) && typeof edge.cursor === 'string' ? edge.cursor : vault.id;
+        edges.push({ node: vault, cursor });
+      } catch (error) {
+        if (!(error instanceof ValidationError)) {
+          throw error;
+        }
+        const id = VaultNormalizer.isRecord(node) ? node.id ?? node.address : undefined;
+        rejected.push({
+          index,
+          id: typeof id === 'string' ? id : undefined,
+          field: error.field,
+          reason: error.message
+        });
+      }
+    });
+
+    return {
+      data: {
+        edges,
+        pageInfo: VaultNormalizer.normalizePageInfo(raw.pageInfo),
+        totalCount: VaultNormalizer.toNumber(raw.totalCount, 'totalCount', edges.length)
+      },
+      rejected
+    };
+  }
+
+  /**
+   * Validate and normalize a single vault
+   *
+   * @throws ValidationError naming the first invalid field
+   */
+  static normalizeVault(raw: unknown): Vault {
+    if (!VaultNormalizer.isRecord(raw)) {
+      throw new ValidationError('Vault entry is not an object', 'node');
+    }
+
+    const address = VaultNormalizer.toAddress(raw.address ?? raw.id, 'address');
+    const unavailableFields = raw.unavailableFields !== undefined ? VaultNormalizer.toDataFields(raw.unavailableFields) : [];
+    const missing = (field: VaultDataField, value: unknown): boolean => {
+      if (value !== undefined && value !== null) {
+        return false;
+      }
+      if (!unavailableFields.includes(field)) {
+        unavailableFields.push(field);
+      }
+      return true;
+    };
+
+    const totalValueLocked = missing('totalValueLocked', raw.totalValueLocked) ? '0' : raw.totalValueLocked;
+    if ((typeof totalValueLocked !== 'string' && typeof totalValueLocked !== 'number')
+      || !Number.isFinite(Number(totalValueLocked))) {
+      throw new ValidationError('Total value locked must be numeric', 'totalValueLocked');
+    }
+
+    const vault: Vault = {
+      id: typeof raw.id === 'string' && raw.id !== '' ? raw.id : address,
+      address,
+      token0: VaultNormalizer.normalizeToken(raw.token0, 'token0'),
+      token1: VaultNormalizer.normalizeToken(raw.token1, 'token1'),
+      protocol: VaultNormalizer.toText(raw.protocol, 'protocol'),
+      beaconName: VaultNormalizer.toText(raw.beaconName, 'beaconName'),
+      totalValueLocked: String(totalValueLocked),
+      apy: missing('apy', raw.apy) ? 0 : VaultNormalizer.toNumber(raw.apy, 'apy'),
+      createdAt: VaultNormalizer.toText(raw.createdAt, 'createdAt'),
+      updatedAt: VaultNormalizer.toText(raw.updatedAt, 'updatedAt')
+    };
+    if (unavailableFields.length > 0) {
+      vault.unavailableFields = unavailableFields;
+    }
+    return vault;
+  }
+
+  private static normalizeToken(raw: unknown, field: string): Token {
+    if (!VaultNormalizer.isRecord(raw)) {
+      throw new ValidationError(`${field} is not a token object`, field);
+    }
+
+    const address = VaultNormalizer.toAddress(raw.address ?? raw.id, `${field}.address`);
+    const decimals = VaultNormalizer.toNumber(raw.decimals, `${field}.decimals`);
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > 255) {
+      throw new ValidationError(`${field} decimals must be an integer between 0 and 255`, `${field}.decimals`);
+    }
+
+    const symbol = VaultNormalizer.toText(raw.symbol, `${field}.symbol`);
+    return {
+      id: typeof raw.id === 'string' && raw.id !== '' ? raw.id : address,
+      address,
+      symbol,
+      name: VaultNormalizer.toText(raw.name, `${field}.name`) || symbol,
+      decimals
+    };
+  }
+
+  private static normalizePageInfo(raw: unknown): PageInfo {
+    if (!VaultNormalizer.isRecord(raw)) {
+      throw new ValidationError('Vault page has no page info', 'pageInfo');
+    }
+    if (typeof raw.hasNextPage !== 'boolean') {
+      throw new ValidationError('Page info is missing hasNextPage', 'pageInfo.hasNextPage');
+    }
+
+    const cursor = (value: unknown): string | null => typeof value === 'string' && value !== '' ? value : null;
+    return {
+      hasNextPage: raw.hasNextPage,
+      hasPreviousPage: raw.hasPreviousPage === true,
+      startCursor: cursor(raw.startCursor),
+      endCursor: cursor(raw.endCursor)
+    };
+  }
+
+  private static toAddress(value: unknown, field: string): string {
+    if (typeof value !== 'string' || !isAddress(value, { strict: false })) {
+      throw new ValidationError(`Invalid ${field}: ${String(value)}`, field);
+    }
+    return getAddress(value);
+  }
+
+  private static toNumber(value: unknown, field: string, fallback?: number): number {
+    if ((value === undefined || value === null) && fallback !== undefined) {
+      return fallback;
+    }
+    const parsed = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+    if (!Number.isFinite(parsed)) {
+      throw new ValidationError(`${field} must be a number`, field);
+    }
+    return parsed;
+  }
+
+  private static toText(value: unknown, field: string): string {
+    if (value === undefined || value === null) {
+      return '';
+    }
+    if (typeof value === 'number') {
+      return String(value);
+    }
+    if (typeof value !== 'string') {
+      throw new ValidationError(`${field} must be a string`, field);
+    }
+    return value;
+  }
+
+  private static toDataFields(value: unknown): VaultDataField[] {
+    const known: VaultDataField[] = ['protocol', 'totalValueLocked', 'apy'];
+    if (!Array.isArray(value) || !value.every(field => known.includes(field))) {
+      throw new ValidationError('Unavailable fields must list known vault fields', 'unavailableFields');
+    }
+    return [...value];
+  }
+
+  private static isRecord(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
+
+// Export types
+export type { RejectedVault, NormalizedPage };
@@ -0,0 +1,112 @@
+import { ValidationError, Vault } from '../steer-types';
+import { VaultQuery } from './vault-query';
+
+const USDC = '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E';
+
+function vault(id: string, symbols: [string, string], protocol: string, totalValueLocked: string, apy: number): Vault {
+  const token = (symbol: string, address: string) => ({ id: address, address, symbol, name: symbol, decimals: 18 });
+  return {
+    id,
+    address: id,
+    token0: token(symbols[0], symbols[0] === 'USDC' ? USDC : '0x0000000000000000000000000000000000000001'),
+    token1: token(symbols[1], symbols[1] === 'USDC' ? USDC : '0x0000000000000000000000000000000000000002'),
+    protocol,
+    beaconName: 'MultiPositionBlackhole',
+    totalValueLocked,
+    apy,
+    createdAt: '',
+    updatedAt: ''
+  };
+}
+
+const VAULTS = [
+  vault('a', ['WAVAX', 'USDC'], 'Blackhole', '5000', 12),
+  vault('b', ['USDC', 'USDT'], 'Pharaoh', '900', 4),
+  vault('c', ['BTC.b', 'WAVAX'], 'Blackhole', '20000', 8),
+  vault('d', ['WETH', 'USDC'], 'blackhole', 'n/a', 12)
+];
+
+const ids = (vaults: Vault[]) => vaults.map(v => v.id);
+
+function expectValidationError(run: () => unknown, field: string): void {
+  let thrown: unknown;
+  try {
+    run();
+  } catch (error) {
+    thrown = error;
+  }
+  expect(thrown).toBeInstanceOf(ValidationError);
+  expect((thrown as ValidationError).field).toBe(field);
+}
+
+describe('VaultQuery', () => {
+  describe('filter', () => {
+    it('matches either token by symbol or address', () => {
+      expect(ids(VaultQuery.filter(VAULTS, { token: 'usdc' }))).toEqual(['a', 'b', 'd']);
+      expect(ids(VaultQuery.filter(VAULTS, { token: USDC.toLowerCase() }))).toEqual(['a', 'b', 'd']);
+    });
+
+    it('combines protocol, TVL and APY conditions', () => {
+      expect(ids(VaultQuery.filter(VAULTS, { protocol: 'BLACKHOLE' }))).toEqual(['a', 'c', 'd']);
+      // A TVL that is not a number never meets a minimum
+      expect(ids(VaultQuery.filter(VAULTS, { minTvl: 1000 }))).toEqual(['a', 'c']);
+      expect(ids(VaultQuery.filter(VAULTS, { minApy: 5, maxApy: 10 }))).toEqual(['c']);
+    });
+  });
+
+  describe('sort', () => {
+    it('breaks ties with later options and leaves the input alone', () => {
+      const sorted = VaultQuery.sort(VAULTS, [{ field: 'apy', direction: 'desc' }, { field: 'token0', direction: 'asc' }]);
+
+      expect(ids(sorted)).toEqual(['a', 'd', 'c', 'b']);
+      expect(ids(VAULTS)).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    it('sorts TVL numerically with unparseable values last', () => {
+      expect(ids(VaultQuery.sort(VAULTS, { field: 'totalValueLocked', direction: 'asc' }))).toEqual(['b', 'a', 'c', 'd']);
+    });
+  });
+
+  describe('paginate', () => {
+    it('starts after the cursor and applies the offset', () => {
+      const page = VaultQuery.paginate(VAULTS, { limit: 1, cursor: 'a', offset: 1 });
+
+      expect(page).toEqual({ vaults: [VAULTS[2]], totalCount: 4, hasNextPage: true, nextCursor: 'c' });
+    });
+
+    it('rejects an unknown cursor', () => {
+      expectValidationError(() => VaultQuery.paginate(VAULTS, { limit: 1, cursor: 'z' }), 'cursor');
+    });
+  });
+
+  describe('apply', () => {
+    it('answers "top USDC vaults by APY"', () => {
+      const result = VaultQuery.apply(VAULTS, {
+        filter: { token: 'USDC' },
+        sort: [{ field: 'apy', direction: 'desc' }, { field: 'id', direction: 'asc' }],
+        pagination: { limit: 2 }
+      });
+
+      expect(ids(result.vaults)).toEqual(['a', 'd']);
+      expect(result).toMatchObject({ totalCount: 3, hasNextPage: true, nextCursor: 'd' });
+    });
+
+    it.each([
+      ['an inverted APY range', { filter: { minApy: 10, maxApy: 5 } }, 'minApy'],
+      ['a zero limit', { pagination: { limit: 0 } }, 'limit'],
+      ['a negative offset', { pagination: { limit: 1, offset: -1 } }, 'offset']
+    ])('rejects %s', (_, query, field) => {
+      expectValidationError(() => VaultQuery.apply(VAULTS, query), field);
+    });
+
+    it('refuses to filter or sort on fields some vaults do not provide', () => {
+      const partial = [...VAULTS, { ...VAULTS[0], id: 'e', unavailableFields: ['protocol', 'totalValueLocked', 'apy'] } as Vault];
+
+      expectValidationError(() => VaultQuery.apply(partial, { filter: { minTvl: 1 } }), 'totalValueLocked');
+      expectValidationError(() => VaultQuery.apply(partial, { filter: { maxApy: 50 } }), 'apy');
+      expectValidationError(() => VaultQuery.apply(partial, { filter: { protocol: 'Blackhole' } }), 'protocol');
+      expectValidationError(() => VaultQuery.apply(partial, { sort: { field: 'apy', direction: 'desc' } }), 'apy');
+      expect(VaultQuery.apply(partial, { filter: { token: 'USDC' } }).totalCount).toBe(4);
+    });
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Vault Query
+ *
+ * Filters, sorts and pages vaults that have already been fetched, so
+ * questions like "top USDC vaults by APY" need no hand-written loops.
+ */
+
+import { isAddress, isAddressEqual, type Address } from 'viem';
+import { PaginationParams, SortOptions, ValidationError, Vault, VaultDataField } from '../steer-types';
+
+interface VaultFilter {
+  // Symbol (case-insensitive) or address of either token in the pair
+  token?: string;
+  // Minimum total value locked, in USD
+  minTvl?: number;
+  // APY range, inclusive
+  minApy?: number;
+  maxApy?: number;
+  // Case-insensitive protocol name
+  protocol?: string;
+  beaconName?: string;
+}
+
+interface VaultQueryOptions {
+  filter?: VaultFilter;
+  // Later sort options break ties left by earlier ones
+  sort?: SortOptions | SortOptions[];
+  // `cursor` is the id of the vault to start after; `offset` skips vaults after that
+  pagination?: PaginationParams;
+}
+
+interface VaultQueryResult<V extends Vault = Vault> {
+  vaults: V[];
+  // Vaults matching the filter across all pages
+  totalCount: number;
+  hasNextPage: boolean;
+  // Id of the last vault returned; pass as `cursor` for the next page
+  nextCursor: string | null;
+}
+
+/**
+ * Vault Query
+ */
+export class VaultQuery {
+  /**
+   * Filter, sort and page a list of vaults
+   *
+   * @throws ValidationError when the query is invalid, relies on a field some
+   * vaults do not provide, or the cursor is unknown
+   */
+  static apply<V extends Vault>(vaults: V[], query: VaultQueryOptions = {}): VaultQueryResult<V> {
+    VaultQuery.validate(query);
+    VaultQuery.assertFieldsAvailable(vaults, query);
+    const matching = VaultQuery.filter(vaults, query.filter);
+    const sorted = query.sort ? VaultQuery.sort(matching, query.sort) : matching;
+    return VaultQuery.paginate(sorted, query.pagination);
+  }
+
+  /**
+   * Check a query's ranges and pagination before any vaults are fetched
+   *
+   * @throws ValidationError naming the invalid field
+   */
+  static validate(query: VaultQueryOptions): void {
+    const { filter, pagination } = query;
+    if (filter?.minApy !== undefined && filter.maxApy !== undefined && filter.minApy > filter.maxApy) {
+      throw new ValidationError('minApy cannot be greater than maxApy', 'minApy');
+    }
+    if (pagination && (!Number.isInteger(pagination.limit) || pagination.limit <= 0)) {
+      throw new ValidationError('Limit must be a positive integer', 'limit');
+    }
+    if (pagination?.offset !== undefined && (!Number.isInteger(pagination.offset) || pagination.offset < 0)) {
+      throw new ValidationError('Offset must be a non-negative integer', 'offset');
+    }
+  }
+
+  /**
+   * Refuse a query that filters or sorts on a field some vaults only hold a
+   * placeholder for, such as TVL on vaults read from the subgraph
+   *
+   * @throws ValidationError naming the unavailable field
+   */
+  static assertFieldsAvailable(vaults: Vault[], query: VaultQueryOptions): void {
+    const { filter = {}, sort = [] } = query;
+    const used = new Set<string>((Array.isArray(sort) ? sort : [sort]).map(option => option.field));
+    if (filter.minTvl !== undefined) {
+      used.add('totalValueLocked');
+    }
+    if (filter.minApy !== undefined || filter.maxApy !== undefined) {
+      used.add('apy');
+    }
+    if (filter.protocol) {
+      used.add('protocol');
+    }
+
+    for (const field of used) {
+      const missing = vaults.filter(vault => vault.unavailableFields?.includes(field as VaultDataField)).length;
+      if (missing > 0) {
+        throw new ValidationError(
+          `Cannot filter or sort by ${field}: ${missing} of ${vaults.length} vaults do not provide it`,
+          field
+        );
+      }
+    }
+  }
+
+  /**
+   * Keep the vaults matching every condition in the filter
+   */
+  static filter<V extends Vault>(vaults: V[], filter: VaultFilter = {}): V[] {
+    const token = filter.token?.trim();
+    const protocol = filter.protocol?.toLowerCase();
+    return vaults.filter(vault => {
+      if (token && !VaultQuery.hasToken(vault, token)) {
+        return false;
+      }
+      if (filter.minTvl !== undefined && !(Number(vault.totalValueLocked) >= filter.minTvl)) {
+        return false;
+      }
+      if (filter.minApy !== undefined && vault.apy < filter.minApy) {
+        return false;
+      }
+      if (filter.maxApy !== undefined && vault.apy > filter.maxApy) {
+        return false;
+      }
+      if (protocol && vault.protocol.toLowerCase() !== protocol) {
+        return false;
+      }
+      if (filter.beaconName && vault.beaconName !== filter.beaconName) {
+        return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Sort vaults without modifying the input
+   *
+   * Tokens sort by symbol and `totalValueLocked` sorts numerically.
+   */
+  static sort<V extends Vault>(vaults: V[], sort: SortOptions | SortOptions[]): V[] {
+    const options = Array.isArray(sort) ? sort : [sort];
+    return [...vaults].sort((a, b) => {
+      for (const { field, direction } of options) {
+        const order = VaultQuery.compare(VaultQuery.sortValue(a, field), VaultQuery.sortValue(b, field));
+        if (order !== 0) {
+          return direction === 'desc' ? -order : order;
+        }
+      }
+      return 0;
+    });
+  }
+
+  /**
+   * Take one page of vaults
+   *
+   * Expects a query already checked by `validate`.
+   */
+  static paginate<V extends Vault>(vaults: V[], pagination?: PaginationParams): VaultQueryResult<V> {
+    let start = 0;
+    if (pagination?.cursor) {
+      const index = vaults.findIndex(vault => vault.id === pagination.cursor);
+      if (index === -1) {
+        throw new ValidationError(`Unknown cursor: ${pagination.cursor}`, 'cursor');
+      }
+      start = index + 1;
+    }
+    start += pagination?.offset ?? 0;
+    const end = pagination ? Math.min(start + pagination.limit, vaults.length) : vaults.length;
+
+    const page = vaults.slice(start, end);
+    return {
+      vaults: page,
+      totalCount: vaults.length,
+      hasNextPage: end < vaults.length,
+      nextCursor: page.length > 0 ? page[page.length - 1].id : null
+    };
+  }
+
+  private static hasToken(vault: Vault, token: string): boolean {
+    if (isAddress(token, { strict: false })) {
+      return [vault.token0, vault.token1].some(t =>
+        isAddress(t.address, { strict: false }) && isAddressEqual(t.address as Address, token as Address)
+      );
+    }
+    const symbol = token.toLowerCase();
+    return vault.token0.symbol.toLowerCase() === symbol || vault.token1.symbol.toLowerCase() === symbol;
+  }
+
+  private static sortValue(vault: Vault, field: SortOptions['field']): string | number {
+    const value = vault[field];
+    if (field === 'totalValueLocked') {
+      return Number(value);
+    }
+    if (typeof value === 'object') {
+      return value.symbol;
+    }
+    return value;
+  }
+
+  private static compare(a: string | number, b: string | number): number {
+    if (typeof a === 'number' && typeof b === 'number') {
+      // NaN sorts last in ascending order
+      if (Number.isNaN(a) || Number.isNaN(b)) {
+        return Number.isNaN(a) === Number.isNaN(b) ? 0 : Number.isNaN(a) ? 1 : -1;
+      }
+      return a - b;
+    }
+    return String(a).localeCompare(String(b));
+  }
+}
+
+// Export types
+export type { VaultFilter, VaultQueryOptions, VaultQueryResult };
@@ -1,6 +1,11 @@
-import { createPublicClient, createWalletClient, http, Address } from 'viem';
+import { createPublicClient, http, Address } from 'viem';
 import { avalanche, polygon } from 'viem/chains';
 import { SteerClient } from '@steerprotocol/sdk';
+import { VaultMetadataResolver, type VaultInfo } from '../vault-metadata';
+import { GasEstimator, type GasEstimationResult, type GasEstimatorOptions } from '../gas-estimator';
+import { TxSimulator, type SimulationResult } from '../tx-simulator';
+import { TxGuard } from '../tx-guards';
+import { SignerFactory } from '../signer-factory';
 
 /**
  * Steer Pool Pending Rewards Calculator
@@ -11,8 +16,14 @@ import { SteerClient } from '@steerprotocol/sdk';
 
 export class SteerPendingRewardsCalculator {
   private steerClient: SteerClient;
+  private vaultResolver: VaultMetadataResolver;
+  private txGuard: TxGuard;
+  private publicClient: any;
 
   constructor(publicClient: any, walletClient: any, environment: 'development' | 'production' = 'production') {
+    this.publicClient = publicClient;
+    this.vaultResolver = new VaultMetadataResolver(publicClient);
+    this.txGuard = new TxGuard(publicClient, walletClient);
     this.steerClient = new SteerClient({
       environment,
       client: publicClient,
@@ -20,12 +31,28 @@ export class SteerPendingRewardsCalculator {
     });
   }
 
+  /**
+   * Get vault information and token details
+   */
+  async getVaultInfo(vaultAddress: Address): Promise<VaultInfo | null> {
+    try {
+      return await this.vaultResolver.resolve(vaultAddress);
+    } catch (error) {
+      console.error('Failed to get vault info:', error);
+      return null;
+    }
+  }
+
   /**
    * Prepare transaction object to claim user rewards from a vault
    * - Calls claimUserRewards() on the vault contract
-   * - No args, nonpayable
+   * - No args, nonpayable; rewards are paid to the caller
+   * - Checks the wallet chain and vault code first
    */
-  async prepareClaimPendingRewardsTx(vaultAddress: Address) {
+  async prepareClaimPendingRewardsTx(vaultAddress: Address, chainId?: number) {
+    await this.txGuard.assertChain(chainId);
+    await this.txGuard.assertContract(vaultAddress);
+
     const claimUserRewardsAbi = [
       {
         inputs: [],
@@ -49,6 +76,29 @@ export class SteerPendingRewardsCalculator {
     return preparedTx;
   }
 
+  /**
+   * Estimate gas for claiming rewards from a vault
+   */
+  async estimateGasForClaimTx(
+    vaultAddress: Address,
+    userAddress: Address,
+    options: GasEstimatorOptions = {}
+  ): Promise<GasEstimationResult> {
+    const preparedTx = await this.prepareClaimPendingRewardsTx(vaultAddress);
+    return new GasEstimator(this.publicClient, options).estimate(preparedTx, userAddress);
+  }
+
+  /**
+   * Simulate a prepared claim transaction and decode any revert
+   */
+  async simulate(preparedTx: any, account: Address): Promise<SimulationResult> {
+    const simulation = await new TxSimulator(this.publicClient).simulate(preparedTx, account);
+    if (!simulation.success) {
+      console.warn(`⚠️  Claim simulation failed: ${simulation.revert?.reason ?? simulation.error}`);
+    }
+    return simulation;
+  }
+
   /**
    * Calculate pending rewards for a user from a specific vault
    */
@@ -59,6 +109,11 @@ export class SteerPendingRewardsCalculator {
     try {
       console.log(`\n=== Calculating Pending Rewards ===`);
       console.log(`Vault Address: ${vaultAddress}`);
+
+      const vaultInfo = await this.getVaultInfo(vaultAddress);
+      if (vaultInfo) {
+        console.log(`Vault: ${vaultInfo.name}`);
+      }
       console.log(`User Address: ${userAddress}`);
 
       const response = await this.steerClient.vaults.calculatePendingRewards({
@@ -105,10 +160,7 @@ export async function runPendingRewardsExample(): Promise<void> {
       transport: http()
     });
 
-    const walletClient = createWalletClient({
-      chain: avalanche,
-      transport: http()
-    });
+    const walletClient = SignerFactory.walletClientFromEnv(avalanche);
 
     // Create calculator instance
     const rewardsCalculator = new SteerPendingRewardsCalculator(publicClient, walletClient);
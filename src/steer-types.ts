@@ -16,6 +16,9 @@ export interface Token {
   address: string;
 }
 
+// Vault fields a data source may not provide
+export type VaultDataField = 'protocol' | 'totalValueLocked' | 'apy';
+
 // Vault interface
 export interface Vault {
   id: string;
@@ -28,6 +31,8 @@ export interface Vault {
   apy: number;
   createdAt: string;
   updatedAt: string;
+  // Fields the source did not provide; their values are placeholders
+  unavailableFields?: VaultDataField[];
 }
 
 // Vault edge for pagination
@@ -147,7 +152,7 @@ export interface PaginationParams {
 
 // Sort options
 export interface SortOptions {
-  field: keyof Vault;
+  field: Exclude<keyof Vault, 'unavailableFields'>;
   direction: 'asc' | 'desc';
 }
 
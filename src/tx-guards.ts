@@ -0,0 +1,145 @@
+/**
+ * Transaction Guards
+ *
+ * Safety checks shared by the deposit, withdrawal and claim paths, run before
+ * anything is prepared or signed: recipients must be non-zero checksummed
+ * addresses (defaulting to the signer), the wallet must be on the expected
+ * chain, and target contracts must have code.
+ */
+
+import { Address, getAddress, isAddress, isAddressEqual, zeroAddress } from 'viem';
+import { ValidationError } from './steer-types';
+
+interface GuardOptions {
+  // Account signing the transaction; defaults to the wallet's first account
+  account?: string;
+  // Recipient of the transaction's output; defaults to the signer
+  recipient?: string;
+  // Expected chain; defaults to the public client's chain
+  chainId?: number;
+  // Contracts the transaction interacts with, which must have code
+  contracts?: string[];
+}
+
+interface GuardResult {
+  // Resolved only when an account was given or the recipient defaults to it
+  account?: Address;
+  recipient: Address;
+  chainId: number;
+}
+
+/**
+ * Transaction Guard
+ */
+export class TxGuard {
+  private publicClient: any;
+  private walletClient: any;
+
+  constructor(publicClient: any, walletClient: any) {
+    this.publicClient = publicClient;
+    this.walletClient = walletClient;
+  }
+
+  /**
+   * Run every guard and return the resolved recipient and chain
+   *
+   * The wallet's account is only looked up when the recipient defaults to it,
+   * so preparing a transaction for an explicit recipient works with an
+   * account-less wallet client. Callers that sign use `resolveAccount`.
+   *
+   * @throws ValidationError when any guard fails
+   */
+  async check(options: GuardOptions = {}): Promise<GuardResult> {
+    const chainId = await this.assertChain(options.chainId);
+    for (const contract of options.contracts ?? []) {
+      await this.assertContract(contract);
+    }
+    const account = options.account !== undefined || options.recipient === undefined
+      ? await this.resolveAccount(options.account)
+      : undefined;
+    const recipient = options.recipient !== undefined ? TxGuard.assertRecipient(options.recipient) : account!;
+    return { account, recipient, chainId };
+  }
+
+  /**
+   * Resolve the signing account: the given one, or the wallet's first account
+   *
+   * Explicit accounts are not checked against `getAddresses()`, so custodial
+   * and remote signers that do not list their accounts still work.
+   */
+  async resolveAccount(account?: string): Promise<Address> {
+    if (account !== undefined) {
+      if (!isAddress(account, { strict: false })) {
+        throw new ValidationError(`Invalid account address: ${account}`, 'account');
+      }
+      return getAddress(account);
+    }
+
+    if (this.walletClient.account?.address) {
+      return this.walletClient.account.address;
+    }
+    const addresses: Address[] = await this.walletClient.getAddresses();
+    if (!addresses || addresses.length === 0) {
+      throw new ValidationError('No account given and the wallet has no account to default to', 'account');
+    }
+    return addresses[0];
+  }
+
+  /**
+   * Validate the recipient, or default to the signing account when omitted
+   */
+  async resolveRecipient(recipient?: string, account?: string): Promise<Address> {
+    if (recipient !== undefined) {
+      return TxGuard.assertRecipient(recipient);
+    }
+    return this.resolveAccount(account);
+  }
+
+  /**
+   * Check that the wallet client is connected to the expected chain
+   *
+   * Returns the chain id the transaction will be sent on.
+   */
+  async assertChain(chainId?: number): Promise<number> {
+    const expected: number = chainId ?? this.publicClient.chain?.id ?? await this.publicClient.getChainId();
+    const walletChainId: number = this.walletClient.chain?.id ?? await this.walletClient.getChainId();
+
+    if (walletChainId !== expected) {
+      throw new ValidationError(`Wallet is connected to chain ${walletChainId}, expected chain ${expected}`, 'chainId');
+    }
+    return expected;
+  }
+
+  /**
+   * Check that an address has contract code deployed
+   */
+  async assertContract(address: string): Promise<void> {
+    if (!isAddress(address, { strict: false })) {
+      throw new ValidationError(`Invalid contract address: ${address}`, 'address');
+    }
+
+    const code = await this.publicClient.getCode({ address: address as Address });
+    if (!code || code === '0x') {
+      throw new ValidationError(`No contract code at ${address}`, 'address');
+    }
+  }
+
+  /**
+   * Reject malformed, zero and non-checksummed recipient addresses
+   */
+  static assertRecipient(recipient: string): Address {
+    if (!isAddress(recipient, { strict: false })) {
+      throw new ValidationError(`Invalid recipient address: ${recipient}`, 'recipient');
+    }
+    if (isAddressEqual(recipient as Address, zeroAddress)) {
+      throw new ValidationError('Recipient cannot be the zero address', 'recipient');
+    }
+    if (recipient !== getAddress(recipient)) {
+      throw new ValidationError(`Recipient is not checksummed, expected ${getAddress(recipient)}`, 'recipient');
+    }
+    return recipient as Address;
+  }
+}
+
+// Export types
+export type { GuardOptions, GuardResult };
@@ -0,0 +1,96 @@
+import { Abi, encodeErrorResult, parseAbi, RawContractError } from 'viem';
+import { TxSimulator } from './tx-simulator';
+
+const VAULT = '0x1111111111111111111111111111111111111111';
+const USER = '0x4444444444444444444444444444444444444444';
+
+// Revert payloads as an RPC node returns them
+const revertString = (message: string) =>
+  encodeErrorResult({ abi: parseAbi(['error Error(string)']), errorName: 'Error', args: [message] });
+const decode = (data: `0x${string}`, abi: Abi = parseAbi(['error Unrelated()'])) =>
+  TxSimulator.decodeRevert(new RawContractError({ data }), abi);
+
+describe('TxSimulator.decodeRevert', () => {
+  it.each([
+    ['0', 'SlippageExceeded'],
+    ['1', 'SlippageExceeded'],
+    ['Too little received', 'SlippageExceeded'],
+    ['Price slippage check', 'SlippageExceeded'],
+    ['Transaction too old', 'DeadlineExceeded'],
+    ['ERC20Permit: expired deadline', 'DeadlineExceeded'],
+    ['ERC20: transfer amount exceeds balance', 'InsufficientBalance'],
+    ['Pausable: paused', 'Paused']
+  ])('maps the revert string %p to %s', (message, reason) => {
+    const data = revertString(message);
+
+    expect(decode(data)).toEqual({ reason, errorName: 'Error', message, args: [message], data });
+  });
+
+  it('leaves unmapped revert strings unknown', () => {
+    expect(decode(revertString('to'))).toMatchObject({ reason: 'Unknown', message: 'to' });
+  });
+
+  it.each(['SlippageExceeded', 'DeadlineExceeded'] as const)('maps the %s custom error', errorName => {
+    const data = encodeErrorResult({ abi: parseAbi([`error ${errorName}()`]), errorName });
+
+    expect(decode(data)).toEqual({ reason: errorName, errorName, args: undefined, data });
+  });
+
+  it('decodes typed custom error arguments', () => {
+    const data = encodeErrorResult({
+      abi: parseAbi(['error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)']),
+      errorName: 'ERC20InsufficientAllowance',
+      args: [VAULT, 1n, 2n]
+    });
+
+    expect(decode(data)).toEqual({
+      reason: 'InsufficientAllowance',
+      errorName: 'ERC20InsufficientAllowance',
+      args: [VAULT, 1n, 2n],
+      data
+    });
+  });
+
+  it('decodes panics', () => {
+    const data = encodeErrorResult({ abi: parseAbi(['error Panic(uint256)']), errorName: 'Panic', args: [0x11n] });
+
+    expect(decode(data)).toMatchObject({ reason: 'Panic', panicCode: 0x11 });
+  });
+
+  it("falls back to the transaction's own ABI for other custom errors", () => {
+    const abi = parseAbi(['error ZeroShares(uint256 minted)']);
+    const data = encodeErrorResult({ abi, errorName: 'ZeroShares', args: [0n] });
+
+    expect(decode(data, abi)).toEqual({ reason: 'CustomError', errorName: 'ZeroShares', args: [0n], data });
+  });
+
+  it('keeps the data of selectors no ABI knows', () => {
+    expect(decode('0xdeadbeef')).toEqual({ reason: 'Unknown', data: '0xdeadbeef' });
+  });
+
+  it('reads revert data nested under data.data', () => {
+    const data = revertString('0');
+
+    expect(TxSimulator.decodeRevert(new RawContractError({ data: { data } }))).toMatchObject({ reason: 'SlippageExceeded' });
+  });
+
+  it('ignores errors that are not reverts', () => {
+    expect(TxSimulator.decodeRevert(new Error('socket hang up'))).toBeNull();
+  });
+});
+
+describe('TxSimulator.simulate', () => {
+  it('decodes a vault withdrawal that reverts below its minimums', async () => {
+    const abi = parseAbi(['function withdraw(uint256 shares, uint256 amount0Min, uint256 amount1Min, address to)']);
+    const publicClient = { call: jest.fn(async () => { throw new RawContractError({ data: revertString('1') }); }) };
+
+    const result = await new TxSimulator(publicClient).simulate(
+      { address: VAULT, abi, functionName: 'withdraw', args: [1n, 0n, 10n ** 18n, USER] },
+      USER
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.revert).toMatchObject({ reason: 'SlippageExceeded', message: '1' });
+    expect(publicClient.call).toHaveBeenCalledWith(expect.objectContaining({ account: USER, to: VAULT }));
+  });
+});
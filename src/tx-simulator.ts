@@ -0,0 +1,282 @@
+/**
+ * Transaction Simulator
+ *
+ * Runs prepared deposit, withdrawal and claim transactions through `eth_call`
+ * and decodes reverts into typed reasons, using the transaction's own ABI
+ * plus the standard ERC-20, EIP-2612 and Pausable custom errors and the
+ * Steer vault and Uniswap V3 revert strings.
+ */
+
+import {
+  Abi,
+  Address,
+  BaseError,
+  decodeErrorResult,
+  DecodeErrorResultReturnType,
+  decodeFunctionResult,
+  encodeFunctionData,
+  Hex,
+  InsufficientFundsError,
+  isHex
+} from 'viem';
+import { toContractCall } from './prepared-tx';
+
+// Typed revert reasons callers can branch on
+type RevertReason =
+  | 'InsufficientAllowance'
+  | 'InsufficientBalance'
+  | 'InsufficientFunds'
+  | 'SlippageExceeded'
+  | 'DeadlineExceeded'
+  | 'Paused'
+  | 'Unauthorized'
+  | 'TransferFailed'
+  | 'Panic'
+  | 'CustomError'
+  | 'Unknown';
+
+interface DecodedRevert {
+  reason: RevertReason;
+  // Custom error name, or 'Error' / 'Panic' for the built-in payloads
+  errorName?: string;
+  args?: readonly unknown[];
+  // Revert string for `Error(string)` payloads
+  message?: string;
+  panicCode?: number;
+  data?: Hex;
+}
+
+interface SimulationResult {
+  success: boolean;
+  result?: unknown;
+  revert?: DecodedRevert;
+  error?: string;
+}
+
+// Custom errors raised by the tokens and helper contracts the examples interact
+// with, after the built-in `Error(string)` and `Panic(uint256)` payloads
+const KNOWN_ERRORS_ABI = [
+  { type: 'error', name: 'Error', inputs: [{ name: 'message', type: 'string' }] },
+  { type: 'error', name: 'Panic', inputs: [{ name: 'code', type: 'uint256' }] },
+  {
+    type: 'error',
+    name: 'ERC20InsufficientAllowance',
+    inputs: [
+      { name: 'spender', type: 'address' },
+      { name: 'allowance', type: 'uint256' },
+      { name: 'needed', type: 'uint256' }
+    ]
+  },
+  {
+    type: 'error',
+    name: 'ERC20InsufficientBalance',
+    inputs: [
+      { name: 'sender', type: 'address' },
+      { name: 'balance', type: 'uint256' },
+      { name: 'needed', type: 'uint256' }
+    ]
+  },
+  { type: 'error', name: 'EnforcedPause', inputs: [] },
+  {
+    type: 'error',
+    name: 'OwnableUnauthorizedAccount',
+    inputs: [{ name: 'account', type: 'address' }]
+  },
+  { type: 'error', name: 'InsufficientAllowance', inputs: [{ name: 'amount', type: 'uint256' }] },
+  { type: 'error', name: 'ERC2612ExpiredSignature', inputs: [{ name: 'deadline', type: 'uint256' }] },
+  { type: 'error', name: 'SlippageExceeded', inputs: [] },
+  { type: 'error', name: 'DeadlineExceeded', inputs: [] }
+] as const;
+
+// A payload decoded against KNOWN_ERRORS_ABI, narrowed by `errorName`
+type KnownErrorResult = DecodeErrorResultReturnType<typeof KNOWN_ERRORS_ABI>;
+
+// Known custom error names mapped to typed reasons
+const CUSTOM_ERROR_REASONS: Record<string, RevertReason> = {
+  ERC20InsufficientAllowance: 'InsufficientAllowance',
+  InsufficientAllowance: 'InsufficientAllowance',
+  ERC20InsufficientBalance: 'InsufficientBalance',
+  EnforcedPause: 'Paused',
+  OwnableUnauthorizedAccount: 'Unauthorized',
+  ERC2612ExpiredSignature: 'DeadlineExceeded',
+  SlippageExceeded: 'SlippageExceeded',
+  DeadlineExceeded: 'DeadlineExceeded'
+};
+
+// Exact `Error(string)` messages from OpenZeppelin 4.x tokens, Steer vaults and
+// Uniswap V3 periphery. Steer vaults revert with "0" / "1" when the token0 /
+// token1 amount falls below its minimum ("0" also covers a deposit minting no shares)
+const REVERT_STRING_REASONS: Record<string, RevertReason> = {
+  'ERC20: insufficient allowance': 'InsufficientAllowance',
+  'ERC20: transfer amount exceeds allowance': 'InsufficientAllowance',
+  'ERC20: transfer amount exceeds balance': 'InsufficientBalance',
+  'ERC20: burn amount exceeds balance': 'InsufficientBalance',
+  'Pausable: paused': 'Paused',
+  'Ownable: caller is not the owner': 'Unauthorized',
+  'ERC20Permit: expired deadline': 'DeadlineExceeded',
+  '0': 'SlippageExceeded',
+  '1': 'SlippageExceeded',
+  'Too little received': 'SlippageExceeded',
+  'Price slippage check': 'SlippageExceeded',
+  'Transaction too old': 'DeadlineExceeded',
+  'STF': 'TransferFailed',
+  'TF': 'TransferFailed'
+};
+
+/**
+ * Transaction Simulator
+ */
+export class TxSimulator {
+  private publicClient: any;
+
+  constructor(publicClient: any) {
+    this.publicClient = publicClient;
+  }
+
+  /**
+   * Simulate a prepared transaction as `account`
+   *
+   * Accepts either an SDK prepare response (`{ success, data }`) or a raw contract call.
+   */
+  async simulate(preparedTx: any, account: Address): Promise<SimulationResult> {
+    const call = toContractCall(preparedTx);
+    if (!call) {
+      return { success: false, error: 'Invalid prepared transaction data' };
+    }
+
+    try {
+      const data = encodeFunctionData({
+        abi: call.abi,
+        functionName: call.functionName,
+        args: call.args as unknown[]
+      });
+
+      const { data: returnData } = await this.publicClient.call({
+        account,
+        to: call.address,
+        data,
+        value: call.value
+      });
+
+      return {
+        success: true,
+        result: returnData
+          ? decodeFunctionResult({ abi: call.abi, functionName: call.functionName, data: returnData })
+          : undefined
+      };
+    } catch (error) {
+      const revert = TxSimulator.decodeRevert(error, call.abi);
+      return {
+        success: false,
+        revert: revert ?? undefined,
+        error: error instanceof BaseError ? error.shortMessage : error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Decode a call error into a typed revert reason
+   *
+   * Returns null when the error is not a revert (for example a network failure).
+   */
+  static decodeRevert(error: unknown, abi: Abi = []): DecodedRevert | null {
+    if (!(error instanceof BaseError)) {
+      return null;
+    }
+
+    if (error.walk(e => e instanceof InsufficientFundsError)) {
+      return { reason: 'InsufficientFunds' };
+    }
+
+    const data = TxSimulator.extractRevertData(error);
+    if (!data) {
+      // Reverted without a payload, e.g. `require(cond)` or `revert()`
+      return error.walk(e => (e as BaseError).name === 'ContractFunctionRevertedError' || (e as BaseError).name === 'CallExecutionError')
+        ? { reason: 'Unknown' }
+        : null;
+    }
+    if (data === '0x') {
+      return { reason: 'Unknown', data };
+    }
+
+    const known = TxSimulator.tryDecodeError(KNOWN_ERRORS_ABI, data);
+    if (known) {
+      return TxSimulator.fromKnownError(known, data);
+    }
+
+    const custom = TxSimulator.tryDecodeError(abi.filter((item): item is Extract<Abi[number], { type: 'error' }> => item.type === 'error'), data);
+    if (custom) {
+      return {
+        reason: CUSTOM_ERROR_REASONS[custom.errorName] ?? 'CustomError',
+        errorName: custom.errorName,
+        args: custom.args,
+        data
+      };
+    }
+
+    // Selector not present in any known ABI
+    return { reason: 'Unknown', data };
+  }
+
+  /**
+   * Map a payload decoded against KNOWN_ERRORS_ABI to its typed reason
+   */
+  private static fromKnownError(decoded: KnownErrorResult, data: Hex): DecodedRevert {
+    switch (decoded.errorName) {
+      case 'Error': {
+        const [message] = decoded.args;
+        return {
+          reason: REVERT_STRING_REASONS[message] ?? 'Unknown',
+          errorName: 'Error',
+          message,
+          args: decoded.args,
+          data
+        };
+      }
+      case 'Panic':
+        return {
+          reason: 'Panic',
+          errorName: 'Panic',
+          panicCode: Number(decoded.args[0]),
+          args: decoded.args,
+          data
+        };
+      default:
+        return {
+          reason: CUSTOM_ERROR_REASONS[decoded.errorName] ?? 'CustomError',
+          errorName: decoded.errorName,
+          args: decoded.args,
+          data
+        };
+    }
+  }
+
+  /**
+   * Decode revert data against `abi`, or return null when no error in it matches
+   */
+  private static tryDecodeError<const abi extends Abi>(abi: abi, data: Hex): DecodeErrorResultReturnType<abi> | null {
+    try {
+      return decodeErrorResult({ abi, data });
+    } catch {
+      return null;
+    }
+  }
+
+  private static extractRevertData(error: BaseError): Hex | undefined {
+    let revertData: Hex | undefined;
+    error.walk(e => {
+      // Revert data sits on `data`, or on `data.data` for some RPC errors
+      const data = (e as { data?: unknown }).data;
+      const candidate = typeof data === 'object' && data !== null ? (data as { data?: unknown }).data : data;
+      if (typeof candidate === 'string' && isHex(candidate)) {
+        revertData = candidate;
+        return true;
+      }
+      return false;
+    });
+    return revertData;
+  }
+}
+
+// Export types
+export type { RevertReason, DecodedRevert, SimulationResult };
@@ -0,0 +1,233 @@
+/**
+ * Vault Metadata Resolver
+ *
+ * Resolves Smart Pool vault metadata (underlying tokens, symbols, names and
+ * decimals) directly from chain state. Reads are batched through multicall
+ * and results are cached per chain, so the deposit, withdrawal and rewards
+ * modules can share a single source of vault information.
+ */
+
+import { Address, erc20Abi, getAddress } from 'viem';
+import { steerVaultAbi } from './steer-abis';
+import { NotFoundError } from './steer-types';
+
+// Token details as read from the ERC-20 contract
+interface TokenInfo {
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+}
+
+// Vault details resolved from the vault and its underlying tokens
+interface VaultInfo {
+  address: string;
+  chainId: number;
+  token0: TokenInfo;
+  token1: TokenInfo;
+  name: string;
+  decimals: number;
+  pool?: string;
+  protocol?: string;
+}
+
+// Live vault supply and underlying token holdings
+interface VaultTotals {
+  totalSupply: bigint;
+  total0: bigint;
+  total1: bigint;
+}
+
+/**
+ * Vault Metadata Resolver
+ *
+ * Reads token0/token1 from each vault, then symbol, name and decimals from
+ * each token, in two multicall rounds regardless of how many vaults are requested.
+ */
+export class VaultMetadataResolver {
+  // Vault metadata is immutable, so the cache is shared by every resolver instance
+  private static cache: Map<number, Map<string, VaultInfo>> = new Map();
+  private publicClient: any;
+
+  constructor(publicClient: any) {
+    this.publicClient = publicClient;
+  }
+
+  /**
+   * Resolve metadata for a single vault
+   *
+   * @throws NotFoundError when the address does not expose vault token accessors
+   */
+  async resolve(vaultAddress: string): Promise<VaultInfo> {
+    const [vaultInfo] = await this.resolveMany([vaultAddress]);
+    if (!vaultInfo) {
+      throw new NotFoundError(`Vault ${vaultAddress}`);
+    }
+    return vaultInfo;
+  }
+
+  /**
+   * Resolve metadata for several vaults at once
+   *
+   * Results are returned in input order; entries that could not be resolved are null.
+   */
+  async resolveMany(vaultAddresses: string[]): Promise<(VaultInfo | null)[]> {
+    const chainId = await this.getChainId();
+    const chainCache = VaultMetadataResolver.getChainCache(chainId);
+
+    const missing = Array.from(new Set(
+      vaultAddresses
+        .map(address => address.toLowerCase())
+        .filter(address => !chainCache.has(address))
+    ));
+
+    if (missing.length > 0) {
+      const fetched = await this.fetchVaultInfos(missing as Address[], chainId);
+      fetched.forEach((vaultInfo, address) => chainCache.set(address, vaultInfo));
+    }
+
+    return vaultAddresses.map(address => chainCache.get(address.toLowerCase()) || null);
+  }
+
+  /**
+   * Read the vault's current share supply and underlying token amounts
+   *
+   * Totals change with every deposit, withdrawal and rebalance, so they are never cached.
+   *
+   * @throws NotFoundError when the address does not expose vault totals
+   */
+  async getTotals(vaultAddress: string): Promise<VaultTotals> {
+    const address = vaultAddress as Address;
+    const [totalSupply, totalAmounts] = await this.publicClient.multicall({
+      contracts: [
+        { address, abi: steerVaultAbi, functionName: 'totalSupply' },
+        { address, abi: steerVaultAbi, functionName: 'getTotalAmounts' }
+      ],
+      allowFailure: true
+    });
+
+    if (totalSupply.status !== 'success' || totalAmounts.status !== 'success') {
+      throw new NotFoundError(`Vault totals for ${vaultAddress}`);
+    }
+
+    const [total0, total1] = totalAmounts.result as readonly [bigint, bigint];
+    return { totalSupply: totalSupply.result as bigint, total0, total1 };
+  }
+
+  /**
+   * Clear cached metadata for one chain, or for all chains when omitted
+   */
+  static clearCache(chainId?: number): void {
+    if (chainId === undefined) {
+      VaultMetadataResolver.cache.clear();
+    } else {
+      VaultMetadataResolver.cache.delete(chainId);
+    }
+  }
+
+  private static getChainCache(chainId: number): Map<string, VaultInfo> {
+    let chainCache = VaultMetadataResolver.cache.get(chainId);
+    if (!chainCache) {
+      chainCache = new Map();
+      VaultMetadataResolver.cache.set(chainId, chainCache);
+    }
+    return chainCache;
+  }
+
+  private async getChainId(): Promise<number> {
+    return this.publicClient.chain?.id ?? await this.publicClient.getChainId();
+  }
+
+  /**
+   * Fetch vault and token metadata in two batched rounds
+   */
+  private async fetchVaultInfos(vaultAddresses: Address[], chainId: number): Promise<Map<string, VaultInfo>> {
+    const vaultCalls = vaultAddresses.flatMap(address => [
+      { address, abi: steerVaultAbi, functionName: 'token0' },
+      { address, abi: steerVaultAbi, functionName: 'token1' },
+      { address, abi: steerVaultAbi, functionName: 'pool' },
+      { address, abi: erc20Abi, functionName: 'decimals' }
+    ]);
+    const vaultResults = await this.publicClient.multicall({ contracts: vaultCalls, allowFailure: true });
+
+    const vaultTokens = new Map<string, { token0: Address; token1: Address; pool?: Address; decimals: number }>();
+    vaultAddresses.forEach((address, i) => {
+      const [token0, token1, pool, decimals] = vaultResults.slice(i * 4, i * 4 + 4);
+      if (token0.status !== 'success' || token1.status !== 'success') {
+        console.warn(`⚠️  ${address} does not expose token0/token1, skipping`);
+        return;
+      }
+      vaultTokens.set(address, {
+        token0: token0.result,
+        token1: token1.result,
+        pool: pool.status === 'success' ? pool.result : undefined,
+        decimals: decimals.status === 'success' ? Number(decimals.result) : 18
+      });
+    });
+
+    const tokenAddresses = Array.from(new Set(
+      Array.from(vaultTokens.values()).flatMap(({ token0, token1 }) => [token0, token1])
+    ));
+    const tokens = await this.fetchTokenInfos(tokenAddresses);
+
+    const vaultInfos = new Map<string, VaultInfo>();
+    vaultTokens.forEach(({ token0, token1, pool, decimals }, address) => {
+      const token0Info = tokens.get(token0);
+      const token1Info = tokens.get(token1);
+      if (!token0Info || !token1Info) {
+        console.warn(`⚠️  Could not read token metadata for vault ${address}, skipping`);
+        return;
+      }
+
+      vaultInfos.set(address, {
+        address: getAddress(address),
+        chainId,
+        token0: token0Info,
+        token1: token1Info,
+        name: `${token0Info.symbol}/${token1Info.symbol} Smart Pool`,
+        decimals,
+        pool
+      });
+    });
+
+    return vaultInfos;
+  }
+
+  /**
+   * Read symbol, name and decimals for each token in a single multicall
+   */
+  private async fetchTokenInfos(tokenAddresses: Address[]): Promise<Map<Address, TokenInfo>> {
+    const tokens = new Map<Address, TokenInfo>();
+    if (tokenAddresses.length === 0) {
+      return tokens;
+    }
+
+    const tokenCalls = tokenAddresses.flatMap(address => [
+      { address, abi: erc20Abi, functionName: 'symbol' },
+      { address, abi: erc20Abi, functionName: 'name' },
+      { address, abi: erc20Abi, functionName: 'decimals' }
+    ]);
+    const tokenResults = await this.publicClient.multicall({ contracts: tokenCalls, allowFailure: true });
+
+    tokenAddresses.forEach((address, i) => {
+      const [symbol, name, decimals] = tokenResults.slice(i * 3, i * 3 + 3);
+      // Decimals are required for any amount math; symbol and name are cosmetic
+      if (decimals.status !== 'success') {
+        return;
+      }
+
+      const tokenSymbol = symbol.status === 'success' ? symbol.result : 'UNKNOWN';
+      tokens.set(address, {
+        address: getAddress(address),
+        symbol: tokenSymbol,
+        name: name.status === 'success' ? name.result : tokenSymbol,
+        decimals: Number(decimals.result)
+      });
+    });
+
+    return tokens;
+  }
+}
+
+// Export types
+export type { TokenInfo, VaultInfo, VaultTotals };
@@ -0,0 +1,55 @@
+import { Address } from 'viem';
+import { getChainContracts } from './steer-config';
+import { VaultPreflight } from './vault-preflight';
+
+const VAULT: Address = '0x1111111111111111111111111111111111111111';
+const POOL: Address = '0x5555555555555555555555555555555555555555';
+
+// Public client for a vault with one position over ticks [-100, 100) in a pool deployed by `factory`
+function createClient(factory: Address, tick: number) {
+  const vaultState: Record<string, unknown> = {
+    paused: false,
+    maxTotalSupply: 0n,
+    totalSupply: 1000n,
+    getPositions: [[-100], [100], [1n]],
+    pool: POOL
+  };
+  const poolState: Record<string, unknown> = {
+    factory,
+    slot0: [2n ** 96n, tick, 0, 1, 1, 0, true]
+  };
+  return {
+    chain: { id: 43114 },
+    multicall: jest.fn(async ({ contracts }: { contracts: { address: Address; functionName: string }[] }) =>
+      contracts.map(({ address, functionName }) => ({
+        status: 'success',
+        result: (address === POOL ? poolState : vaultState)[functionName]
+      }))
+    )
+  };
+}
+
+describe('VaultPreflight.checkDeposit', () => {
+  const uniswapV3Factory = getChainContracts(43114).uniswapV3Factory;
+
+  it('compares the Uniswap V3 pool price with the vault positions', async () => {
+    const result = await new VaultPreflight(createClient(uniswapV3Factory, 150)).checkDeposit(VAULT);
+
+    expect(result.ok).toBe(true);
+    expect(result.state).toMatchObject({ uniswapV3Pool: true, tick: 150 });
+    expect(result.warnings.map(issue => issue.code)).toEqual(['OutOfRange']);
+  });
+
+  it('reports an unsupported protocol instead of reading another DEX pool as Uniswap V3', async () => {
+    const result = await new VaultPreflight(createClient('0x6666666666666666666666666666666666666666', 150)).checkDeposit(VAULT);
+
+    expect(result.ok).toBe(true);
+    expect(result.state.uniswapV3Pool).toBe(false);
+    expect(result.state.tick).toBeUndefined();
+    expect(result.warnings).toEqual([{
+      code: 'UnsupportedProtocol',
+      severity: 'warning',
+      message: 'Vault pool is not a Uniswap V3 pool, so its price was not compared with the vault positions'
+    }]);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Vault Pre-flight Checks
+ *
+ * Reads vault state before a deposit is prepared (paused flag, supply cap,
+ * current supply and the pool price against the vault's positions) and
+ * reports anything that would make the deposit revert or behave unexpectedly.
+ */
+
+import { Address, isAddressEqual } from 'viem';
+import { steerVaultAbi, steerVaultStateAbi, uniswapV3PoolAbi } from './steer-abis';
+import { getChainContracts } from './steer-config';
+
+type PreflightIssueCode =
+  | 'VaultPaused'
+  | 'SupplyCapReached'
+  | 'SupplyCapExceeded'
+  | 'OutOfRange'
+  | 'PartiallyOutOfRange'
+  | 'NoPositions'
+  | 'UnsupportedProtocol'
+  | 'StateUnavailable';
+
+// Blocking issues make the deposit revert; warnings are worth showing but do not
+type PreflightSeverity = 'blocking' | 'warning';
+
+interface PreflightIssue {
+  code: PreflightIssueCode;
+  severity: PreflightSeverity;
+  message: string;
+}
+
+interface VaultPosition {
+  lowerTick: number;
+  upperTick: number;
+}
+
+// Vault state as read by the pre-flight check; fields the vault does not expose are undefined
+interface VaultState {
+  paused?: boolean;
+  totalSupply?: bigint;
+  maxTotalSupply?: bigint;
+  // False when the pool is not from the chain's Uniswap V3 factory
+  uniswapV3Pool?: boolean;
+  tick?: number;
+  positions?: VaultPosition[];
+}
+
+interface PreflightResult {
+  // True when there are no blocking issues
+  ok: boolean;
+  blocking: PreflightIssue[];
+  warnings: PreflightIssue[];
+  state: VaultState;
+}
+
+/**
+ * Vault Pre-flight Checker
+ *
+ * A supply cap of zero is treated as uncapped. Accessors a vault does not
+ * implement are skipped rather than reported as failures. The range check
+ * reads the pool's Uniswap V3 `slot0`, so it only runs for vaults on Uniswap
+ * V3 pools; other protocols get an `UnsupportedProtocol` warning instead.
+ */
+export class VaultPreflight {
+  private publicClient: any;
+
+  constructor(publicClient: any) {
+    this.publicClient = publicClient;
+  }
+
+  /**
+   * Check whether a deposit minting `expectedShares` can go through
+   */
+  async checkDeposit(vaultAddress: string, expectedShares: bigint = 0n): Promise<PreflightResult> {
+    const state = await this.readState(vaultAddress as Address);
+    const issues: PreflightIssue[] = [];
+
+    if (state.paused) {
+      issues.push({ code: 'VaultPaused', severity: 'blocking', message: 'Vault is paused' });
+    }
+
+    if (state.maxTotalSupply !== undefined && state.maxTotalSupply > 0n && state.totalSupply !== undefined) {
+      if (state.totalSupply >= state.maxTotalSupply) {
+        issues.push({ code: 'SupplyCapReached', severity: 'blocking', message: 'Vault has reached its maximum total supply' });
+      } else if (state.totalSupply + expectedShares > state.maxTotalSupply) {
+        issues.push({
+          code: 'SupplyCapExceeded',
+          severity: 'blocking',
+          message: `Deposit would exceed the vault supply cap by ${state.totalSupply + expectedShares - state.maxTotalSupply} shares`
+        });
+      }
+    }
+
+    if (state.positions !== undefined && state.positions.length === 0) {
+      issues.push({ code: 'NoPositions', severity: 'warning', message: 'Vault has no active positions' });
+    } else if (state.uniswapV3Pool === false) {
+      issues.push({
+        code: 'UnsupportedProtocol',
+        severity: 'warning',
+        message: 'Vault pool is not a Uniswap V3 pool, so its price was not compared with the vault positions'
+      });
+    } else if (state.positions !== undefined && state.tick !== undefined) {
+      const tick = state.tick;
+      const inRange = state.positions.filter(position => position.lowerTick <= tick && tick < position.upperTick);
+      if (inRange.length === 0) {
+        issues.push({
+          code: 'OutOfRange',
+          severity: 'warning',
+          message: `Pool tick ${tick} is outside every vault position, so the deposit will not earn fees until the vault rebalances`
+        });
+      } else if (inRange.length < state.positions.length) {
+        issues.push({
+          code: 'PartiallyOutOfRange',
+          severity: 'warning',
+          message: `${state.positions.length - inRange.length} of ${state.positions.length} vault positions are out of range`
+        });
+      }
+    } else {
+      issues.push({ code: 'StateUnavailable', severity: 'warning', message: 'Could not compare the pool price with the vault positions' });
+    }
+
+    const blocking = issues.filter(issue => issue.severity === 'blocking');
+    return {
+      ok: blocking.length === 0,
+      blocking,
+      warnings: issues.filter(issue => issue.severity === 'warning'),
+      state
+    };
+  }
+
+  /**
+   * Read vault state in one multicall, then the pool factory and tick
+   */
+  private async readState(vaultAddress: Address): Promise<VaultState> {
+    const [paused, maxTotalSupply, totalSupply, positions, pool] = await this.publicClient.multicall({
+      contracts: [
+        { address: vaultAddress, abi: steerVaultStateAbi, functionName: 'paused' },
+        { address: vaultAddress, abi: steerVaultStateAbi, functionName: 'maxTotalSupply' },
+        { address: vaultAddress, abi: steerVaultAbi, functionName: 'totalSupply' },
+        { address: vaultAddress, abi: steerVaultStateAbi, functionName: 'getPositions' },
+        { address: vaultAddress, abi: steerVaultAbi, functionName: 'pool' }
+      ],
+      allowFailure: true
+    });
+
+    const state: VaultState = {
+      paused: paused.status === 'success' ? paused.result : undefined,
+      maxTotalSupply: maxTotalSupply.status === 'success' ? maxTotalSupply.result : undefined,
+      totalSupply: totalSupply.status === 'success' ? totalSupply.result : undefined
+    };
+
+    if (positions.status === 'success') {
+      const [lowerTicks, upperTicks] = positions.result as readonly [readonly number[], readonly number[], readonly number[]];
+      state.positions = lowerTicks.map((lowerTick, i) => ({
+        lowerTick: Number(lowerTick),
+        upperTick: Number(upperTicks[i])
+      }));
+    }
+
+    if (pool.status === 'success') {
+      try {
+        const chainId = this.publicClient.chain?.id ?? await this.publicClient.getChainId();
+        const [factory, slot0] = await this.publicClient.multicall({
+          contracts: [
+            { address: pool.result, abi: uniswapV3PoolAbi, functionName: 'factory' },
+            { address: pool.result, abi: uniswapV3PoolAbi, functionName: 'slot0' }
+          ],
+          allowFailure: true
+        });
+
+        state.uniswapV3Pool = factory.status === 'success' && isAddressEqual(factory.result, getChainContracts(chainId).uniswapV3Factory);
+        if (state.uniswapV3Pool && slot0.status === 'success') {
+          state.tick = Number(slot0.result[1]);
+        }
+      } catch (error) {
+        console.warn('⚠️  Failed to read pool price:', error);
+      }
+    }
+
+    return state;
+  }
+}
+
+// Export types
+export type { PreflightIssueCode, PreflightSeverity, PreflightIssue, VaultPosition, VaultState, PreflightResult };
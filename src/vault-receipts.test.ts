@@ -0,0 +1,110 @@
+import { Address, encodeAbiParameters, encodeEventTopics, erc20Abi, zeroAddress } from 'viem';
+import { steerVaultEventsAbi } from './steer-abis';
+import { VaultReceiptDecoder } from './vault-receipts';
+
+const vault: Address = '0x1111111111111111111111111111111111111111';
+const token0: Address = '0x2222222222222222222222222222222222222222';
+const token1: Address = '0x3333333333333333333333333333333333333333';
+const user: Address = '0x4444444444444444444444444444444444444444';
+const periphery: Address = '0x5555555555555555555555555555555555555555';
+
+const amountsParams = [
+  { name: 'shares', type: 'uint256' },
+  { name: 'amount0', type: 'uint256' },
+  { name: 'amount1', type: 'uint256' }
+] as const;
+
+function transferLog(address: Address, from: Address, to: Address, value: bigint) {
+  return {
+    address,
+    topics: encodeEventTopics({ abi: erc20Abi, eventName: 'Transfer', args: { from, to } }),
+    data: encodeAbiParameters([{ name: 'value', type: 'uint256' }], [value])
+  };
+}
+
+function vaultLog(eventName: 'Deposit' | 'Withdraw', shares: bigint, amount0: bigint, amount1: bigint, to: Address = user) {
+  return {
+    address: vault,
+    topics: encodeEventTopics({ abi: steerVaultEventsAbi, eventName, args: { sender: user, to } }),
+    data: encodeAbiParameters(amountsParams, [shares, amount0, amount1])
+  };
+}
+
+describe('VaultReceiptDecoder', () => {
+  describe('decodeDeposit', () => {
+    it('reads shares from the mint and amounts from the Deposit event', () => {
+      const receipt = {
+        logs: [
+          transferLog(token0, user, vault, 10n),
+          transferLog(vault, zeroAddress, user, 100n),
+          vaultLog('Deposit', 100n, 10n, 20n)
+        ]
+      };
+
+      expect(VaultReceiptDecoder.decodeDeposit(receipt, vault, user)).toEqual({
+        sharesMinted: 100n,
+        amount0: 10n,
+        amount1: 20n,
+        hasDepositEvent: true
+      });
+    });
+
+    it('counts shares forwarded by a periphery contract', () => {
+      const receipt = {
+        logs: [
+          transferLog(vault, zeroAddress, periphery, 100n),
+          transferLog(vault, periphery, user, 100n),
+          vaultLog('Deposit', 100n, 10n, 20n, periphery)
+        ]
+      };
+
+      expect(VaultReceiptDecoder.decodeDeposit(receipt, vault, user).sharesMinted).toBe(100n);
+    });
+
+    it('falls back to the Deposit event when no share transfer reaches the recipient', () => {
+      const receipt = { logs: [vaultLog('Deposit', 42n, 1n, 2n)] };
+
+      expect(VaultReceiptDecoder.decodeDeposit(receipt, vault, user).sharesMinted).toBe(42n);
+    });
+
+    it('ignores transfers of other contracts and receipts without vault events', () => {
+      const receipt = { logs: [transferLog(token0, zeroAddress, user, 5n)] };
+
+      expect(VaultReceiptDecoder.decodeDeposit(receipt, vault, user)).toEqual({
+        sharesMinted: 0n,
+        amount0: 0n,
+        amount1: 0n,
+        hasDepositEvent: false
+      });
+    });
+  });
+
+  describe('decodeWithdrawal', () => {
+    it('reports what the recipient received next to the event amounts', () => {
+      const receipt = {
+        logs: [
+          vaultLog('Withdraw', 50n, 10n, 20n),
+          // Fee-on-transfer token0 delivers less than the vault sent
+          transferLog(token0, vault, user, 9n),
+          transferLog(token1, vault, user, 20n)
+        ]
+      };
+
+      expect(VaultReceiptDecoder.decodeWithdrawal(receipt, vault, token0, token1, user)).toEqual({
+        sharesBurned: 50n,
+        amount0: 9n,
+        amount1: 20n,
+        eventAmount0: 10n,
+        eventAmount1: 20n,
+        hasWithdrawEvent: true
+      });
+    });
+
+    it('uses the event amounts when no token transfers reach the recipient', () => {
+      const receipt = { logs: [vaultLog('Withdraw', 50n, 10n, 20n)] };
+
+      const decoded = VaultReceiptDecoder.decodeWithdrawal(receipt, vault, token0, token1, user);
+      expect([decoded.amount0, decoded.amount1]).toEqual([10n, 20n]);
+    });
+  });
+});
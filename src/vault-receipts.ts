@@ -0,0 +1,111 @@
+/**
+ * Vault Receipt Decoding
+ *
+ * Helpers that decode Steer Smart Pool transaction receipts into the amounts
+ * that actually moved on-chain.
+ */
+
+import { Address, erc20Abi, isAddressEqual, parseEventLogs, zeroAddress } from 'viem';
+import { steerVaultEventsAbi } from './steer-abis';
+
+// Amounts decoded from a deposit receipt
+interface DecodedDeposit {
+  sharesMinted: bigint;
+  amount0: bigint;
+  amount1: bigint;
+  hasDepositEvent: boolean;
+}
+
+// Amounts decoded from a withdrawal receipt
+interface DecodedWithdrawal {
+  sharesBurned: bigint;
+  amount0: bigint;
+  amount1: bigint;
+  eventAmount0: bigint;
+  eventAmount1: bigint;
+  hasWithdrawEvent: boolean;
+}
+
+/**
+ * Receipt decoder for vault transactions
+ */
+export class VaultReceiptDecoder {
+  /**
+   * Decode shares minted to the recipient and the token amounts pulled by the vault
+   *
+   * Shares come from the vault's LP `Transfer` mint to the recipient. When the
+   * deposit is routed through a periphery contract the shares may be minted to
+   * the periphery and forwarded, so any vault `Transfer` to the recipient is
+   * counted next, and the `Deposit` event's share count is the last resort.
+   */
+  static decodeDeposit(receipt: any, vaultAddress: Address, recipient: Address): DecodedDeposit {
+    const vaultLogs = (receipt.logs || []).filter((log: any) => isAddressEqual(log.address, vaultAddress));
+
+    const transfers = parseEventLogs({ abi: erc20Abi, eventName: 'Transfer', logs: vaultLogs })
+      .filter(log => isAddressEqual(log.args.to, recipient));
+    const deposits = parseEventLogs({ abi: steerVaultEventsAbi, eventName: 'Deposit', logs: vaultLogs });
+
+    const mints = transfers.filter(log => isAddressEqual(log.args.from, zeroAddress));
+    const shareTransfers = mints.length > 0 ? mints : transfers;
+
+    const sharesFromEvents = deposits.reduce((sum, log) => sum + log.args.shares, 0n);
+    const sharesMinted = shareTransfers.length > 0
+      ? shareTransfers.reduce((sum, log) => sum + log.args.value, 0n)
+      : sharesFromEvents;
+
+    return {
+      sharesMinted,
+      amount0: deposits.reduce((sum, log) => sum + log.args.amount0, 0n),
+      amount1: deposits.reduce((sum, log) => sum + log.args.amount1, 0n),
+      hasDepositEvent: deposits.length > 0
+    };
+  }
+
+  /**
+   * Decode the token amounts that actually arrived at the recipient
+   *
+   * Received amounts are the sum of token0/token1 `Transfer` events to the
+   * recipient, which reflects fee-on-transfer tokens and any other deviation
+   * from the vault's own accounting. The vault `Withdraw` event amounts are
+   * returned alongside and used when no matching transfers are present.
+   */
+  static decodeWithdrawal(
+    receipt: any,
+    vaultAddress: Address,
+    token0: Address,
+    token1: Address,
+    recipient: Address
+  ): DecodedWithdrawal {
+    const logs = receipt.logs || [];
+
+    const withdrawals = parseEventLogs({
+      abi: steerVaultEventsAbi,
+      eventName: 'Withdraw',
+      logs: logs.filter((log: any) => isAddressEqual(log.address, vaultAddress))
+    });
+    const transfers = parseEventLogs({ abi: erc20Abi, eventName: 'Transfer', logs })
+      .filter(log => isAddressEqual(log.args.to, recipient));
+
+    const receivedOf = (token: Address) => {
+      const tokenTransfers = transfers.filter(log => isAddressEqual(log.address, token));
+      return tokenTransfers.length > 0
+        ? tokenTransfers.reduce((sum, log) => sum + log.args.value, 0n)
+        : null;
+    };
+
+    const eventAmount0 = withdrawals.reduce((sum, log) => sum + log.args.amount0, 0n);
+    const eventAmount1 = withdrawals.reduce((sum, log) => sum + log.args.amount1, 0n);
+
+    return {
+      sharesBurned: withdrawals.reduce((sum, log) => sum + log.args.shares, 0n),
+      amount0: receivedOf(token0) ?? eventAmount0,
+      amount1: receivedOf(token1) ?? eventAmount1,
+      eventAmount0,
+      eventAmount1,
+      hasWithdrawEvent: withdrawals.length > 0
+    };
+  }
+}
+
+// Export types
+export type { DecodedDeposit, DecodedWithdrawal };